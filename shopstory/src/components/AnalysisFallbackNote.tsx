@@ -0,0 +1,42 @@
+import {GeminiErrorKind} from '../services/gemini'
+
+/**
+ * What to tell the user about an analysis Gemini didn't answer, by why it didn't:
+ * being offline or busy is worth another try later, a safety block isn't.
+ * Null when there's nothing worth saying, e.g. for a cancelled run.
+ */
+export function describeAnalysisProblem(errorKind?: GeminiErrorKind): string | null {
+  switch (errorKind) {
+    case 'network':
+    case 'timeout':
+      return "We couldn't reach our stylist. Check your connection and try again."
+    case 'rateLimit':
+    case 'server':
+      return 'Our stylist is swamped right now. Try again in a minute.'
+    case 'safety':
+      return "Our stylist couldn't weigh in on some of these products."
+    case 'maxTokens':
+    case 'parse':
+    case 'request':
+    case 'config':
+      return 'Our stylist got muddled this time.'
+    default:
+      return null
+  }
+}
+
+/**
+ * A line under a result built without Gemini's answer, saying why. Renders nothing for
+ * Gemini's own results.
+ */
+export function AnalysisFallbackNote({errorKind}: {errorKind?: GeminiErrorKind}) {
+  const problem = describeAnalysisProblem(errorKind)
+  if (!problem) {
+    return null
+  }
+  return (
+    <p className="text-xs text-center text-amber-700 mt-3">
+      {problem} This is our own quick read of your products instead.
+    </p>
+  )
+}
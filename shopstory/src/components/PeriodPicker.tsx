@@ -0,0 +1,108 @@
+import {useState} from 'react'
+import {useStoryPeriod} from '../contexts/DataContext'
+import {useStoryHold} from '../contexts/StoryPlaybackContext'
+import {ALL_TIME, getCustomPeriod, getThisMonth, getThisYear, PeriodPreset} from '../services/period'
+
+const PRESET_LABELS: Record<PeriodPreset, string> = {
+  allTime: 'All time',
+  thisMonth: 'This month',
+  thisYear: 'This year',
+  custom: 'Custom',
+}
+
+// <input type="date"> values are yyyy-mm-dd; read them as local days, not UTC midnight
+const parseDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number)
+  return year && month && day ? new Date(year, month - 1, day) : null
+}
+
+/**
+ * Chips for choosing which stretch of time the story recaps: all time, this month,
+ * this year or a custom range. Picking one refilters the preloaded data, and the
+ * screens and analyses follow. Holds the story while a custom range is being entered.
+ */
+export function PeriodPicker() {
+  const {period, setPeriod} = useStoryPeriod()
+  const [isEditingCustom, setIsEditingCustom] = useState(false)
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+
+  useStoryHold(isEditingCustom)
+
+  const selectPreset = (preset: PeriodPreset) => {
+    if (preset === 'custom') {
+      setIsEditingCustom(true)
+      return
+    }
+    setIsEditingCustom(false)
+    setPeriod(preset === 'thisMonth' ? getThisMonth() : preset === 'thisYear' ? getThisYear() : ALL_TIME)
+  }
+
+  const fromDate = parseDateInput(from)
+  const toDate = parseDateInput(to)
+
+  const applyCustom = () => {
+    if (!fromDate || !toDate) {
+      return
+    }
+    setPeriod(getCustomPeriod(fromDate, toDate))
+    setIsEditingCustom(false)
+  }
+
+  return (
+    <div className="mt-4">
+      <div className="flex flex-wrap justify-center gap-2">
+        {(Object.keys(PRESET_LABELS) as PeriodPreset[]).map(preset => {
+          const isSelected = isEditingCustom ? preset === 'custom' : period.preset === preset
+          return (
+            <button
+              key={preset}
+              onClick={() => selectPreset(preset)}
+              className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                isSelected
+                  ? 'bg-amber-700 text-white border-amber-600'
+                  : 'bg-white bg-opacity-80 text-amber-800 border-amber-300 hover:bg-amber-50'
+              }`}
+            >
+              {PRESET_LABELS[preset]}
+            </button>
+          )
+        })}
+      </div>
+
+      {isEditingCustom ? (
+        <div className="mt-3 bg-white bg-opacity-80 border border-amber-200 rounded-lg p-3 shadow-sm">
+          <div className="flex gap-2 text-xs text-amber-800">
+            <label className="flex-1 text-left">
+              From
+              <input
+                type="date"
+                value={from}
+                onChange={event => setFrom(event.target.value)}
+                className="w-full mt-1 border border-amber-300 rounded px-2 py-1 text-amber-900"
+              />
+            </label>
+            <label className="flex-1 text-left">
+              To
+              <input
+                type="date"
+                value={to}
+                onChange={event => setTo(event.target.value)}
+                className="w-full mt-1 border border-amber-300 rounded px-2 py-1 text-amber-900"
+              />
+            </label>
+          </div>
+          <button
+            onClick={applyCustom}
+            disabled={!fromDate || !toDate}
+            className="mt-3 w-full bg-amber-600 hover:bg-amber-700 disabled:opacity-50 text-white font-medium py-2 px-4 rounded-lg transition-colors border border-amber-500"
+          >
+            Recap this range
+          </button>
+        </div>
+      ) : (
+        period.preset === 'custom' && <p className="mt-2 text-xs text-amber-700">{period.label}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+import {Story} from './StoryView'
+
+type StoryPickerProps = {
+  stories: Story[]
+  seenStoryIds: ReadonlySet<string>
+  onSelect: (storyIndex: number) => void
+}
+
+type StoryCoverButtonProps = {
+  story: Story
+  isSeen: boolean
+  onSelect: () => void
+}
+
+function StoryCoverButton({story, isSeen, onSelect}: StoryCoverButtonProps) {
+  const {imageUrl, color} = story.cover ?? {}
+
+  return (
+    <button onClick={onSelect} className="flex flex-col items-center gap-2 w-24 flex-shrink-0">
+      {/* Gradient ring for stories the user hasn't finished yet, grey once seen */}
+      <div
+        className={`w-20 h-20 rounded-full p-[3px] ${
+          isSeen ? 'bg-gray-600' : 'bg-gradient-to-tr from-amber-400 via-pink-500 to-purple-500'
+        }`}
+      >
+        <div
+          className="w-full h-full rounded-full border-2 border-black overflow-hidden flex items-center justify-center text-white text-2xl font-bold"
+          style={{backgroundColor: color ?? '#374151'}}
+        >
+          {imageUrl ? (
+            <img src={imageUrl} alt="" className="w-full h-full object-cover" />
+          ) : (
+            story.title.charAt(0)
+          )}
+        </div>
+      </div>
+      <span className={`text-xs text-center leading-tight ${isSeen ? 'text-gray-400' : 'text-white'}`}>
+        {story.title}
+      </span>
+    </button>
+  )
+}
+
+/**
+ * A tray of story covers, Instagram-style. Tapping a cover opens StoryView on that story.
+ */
+export function StoryPicker({stories, seenStoryIds, onSelect}: StoryPickerProps) {
+  return (
+    <div className="w-full h-screen bg-black text-white flex items-center justify-center">
+      <div className="w-full max-w-md h-full flex flex-col p-4">
+        <h1 className="text-2xl font-bold mt-4">ShopStory</h1>
+        <p className="text-gray-400 text-sm mb-6">Pick a story to start</p>
+        <div className="flex gap-2 overflow-x-auto pb-2">
+          {stories.map((story, index) => (
+            <StoryCoverButton
+              key={story.id}
+              story={story}
+              isSeen={seenStoryIds.has(story.id)}
+              onSelect={() => onSelect(index)}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+import React, {useEffect, useRef, useState} from 'react'
+import {usePrefersReducedMotion} from '../hooks/usePrefersReducedMotion'
+
+export const TRANSITION_NAMES = ['slide', 'cube', 'fade', 'pageTurn', 'none'] as const
+
+export type TransitionName = typeof TRANSITION_NAMES[number]
+
+export const DEFAULT_TRANSITION: TransitionName = 'slide'
+// Moving between stories always turns the cube, like other story viewers
+export const STORY_CHANGE_TRANSITION: TransitionName = 'cube'
+
+type Direction = 'forward' | 'back'
+
+type TransitionStyle = {
+  durationMs: number
+  // Keyframe names for the incoming and outgoing screen, by direction
+  enter: Record<Direction, string>
+  exit: Record<Direction, string>
+  // Which of the two screens is drawn on top while they overlap
+  onTop: 'enter' | 'exit' | Record<Direction, 'enter' | 'exit'>
+}
+
+const TRANSITION_STYLES: Record<Exclude<TransitionName, 'none'>, TransitionStyle> = {
+  slide: {
+    durationMs: 300,
+    enter: {forward: 'story-slide-in-right', back: 'story-slide-in-left'},
+    exit: {forward: 'story-slide-out-left', back: 'story-slide-out-right'},
+    onTop: 'enter',
+  },
+  cube: {
+    durationMs: 450,
+    enter: {forward: 'story-cube-in-right', back: 'story-cube-in-left'},
+    exit: {forward: 'story-cube-out-left', back: 'story-cube-out-right'},
+    onTop: 'enter',
+  },
+  fade: {
+    durationMs: 250,
+    enter: {forward: 'story-fade-in', back: 'story-fade-in'},
+    exit: {forward: 'story-fade-out', back: 'story-fade-out'},
+    onTop: 'enter',
+  },
+  // The old page lifts off to reveal the next one; going back, the page falls back into place
+  pageTurn: {
+    durationMs: 600,
+    enter: {forward: 'story-hold', back: 'story-page-unturn'},
+    exit: {forward: 'story-page-turn', back: 'story-hold'},
+    onTop: {forward: 'exit', back: 'enter'},
+  },
+}
+
+type OutgoingScreen = {
+  key: string
+  children: React.ReactNode
+  transition: TransitionName
+  direction: Direction
+}
+
+type StoryTransitionProps = {
+  // Changes whenever a different screen is shown
+  screenKey: string
+  // Changes whenever a different story is shown
+  storyKey: string
+  // Where the screen sits across all stories, used to tell forward from back
+  position: number
+  // How this screen wants to be transitioned to and from
+  transition: TransitionName
+  children: React.ReactNode
+}
+
+/**
+ * Animates between screens in StoryView. The outgoing screen stays mounted only
+ * while the animation runs. Going forward uses the incoming screen's transition
+ * and going back uses the outgoing one's, so the two directions mirror each other.
+ * Honors prefers-reduced-motion by switching screens instantly.
+ */
+export function StoryTransition({screenKey, storyKey, position, transition, children}: StoryTransitionProps) {
+  const prefersReducedMotion = usePrefersReducedMotion()
+  const [displayed, setDisplayed] = useState({screenKey, storyKey, position, transition})
+  const [outgoing, setOutgoing] = useState<OutgoingScreen | null>(null)
+  // Children from the last commit, so the outgoing screen renders exactly as it was
+  const lastChildrenRef = useRef(children)
+
+  if (displayed.screenKey !== screenKey) {
+    const direction: Direction = position >= displayed.position ? 'forward' : 'back'
+    const effective = displayed.storyKey !== storyKey
+      ? STORY_CHANGE_TRANSITION
+      : direction === 'forward' ? transition : displayed.transition
+    setDisplayed({screenKey, storyKey, position, transition})
+    setOutgoing(prefersReducedMotion || effective === 'none'
+      ? null
+      : {key: displayed.screenKey, children: lastChildrenRef.current, transition: effective, direction})
+  }
+
+  useEffect(() => {
+    lastChildrenRef.current = children
+  })
+
+  useEffect(() => {
+    if (!outgoing || outgoing.transition === 'none') {
+      return undefined
+    }
+    const timer = setTimeout(() => setOutgoing(null), TRANSITION_STYLES[outgoing.transition].durationMs)
+    return () => clearTimeout(timer)
+  }, [outgoing])
+
+  const style = outgoing && outgoing.transition !== 'none' ? TRANSITION_STYLES[outgoing.transition] : null
+  const direction = outgoing?.direction ?? 'forward'
+  const onTop = style && (typeof style.onTop === 'string' ? style.onTop : style.onTop[direction])
+  const animation = (keyframes: Record<Direction, string>) =>
+    style ? `${keyframes[direction]} ${style.durationMs}ms ease-in-out both` : undefined
+
+  // Both screens go in one keyed list so the outgoing screen keeps its state instead of remounting
+  const layers = [
+    ...(outgoing && style
+      ? [{key: outgoing.key, children: outgoing.children, isOutgoing: true, animation: animation(style.exit)}]
+      : []),
+    {key: screenKey, children, isOutgoing: false, animation: style ? animation(style.enter) : undefined},
+  ]
+
+  return (
+    <div className="relative w-full h-full" style={{perspective: '1200px'}}>
+      {layers.map(layer => (
+        <div
+          key={layer.key}
+          className={`absolute inset-0 ${layer.isOutgoing ? 'pointer-events-none' : ''}`}
+          style={{
+            animation: layer.animation,
+            zIndex: (onTop === 'exit') === layer.isOutgoing ? 2 : 1,
+          }}
+          aria-hidden={layer.isOutgoing || undefined}
+        >
+          {layer.children}
+        </div>
+      ))}
+      <style>{`
+        @keyframes story-slide-in-right { from { transform: translateX(100%); } to { transform: translateX(0); } }
+        @keyframes story-slide-in-left { from { transform: translateX(-100%); } to { transform: translateX(0); } }
+        @keyframes story-slide-out-left { from { transform: translateX(0); } to { transform: translateX(-100%); } }
+        @keyframes story-slide-out-right { from { transform: translateX(0); } to { transform: translateX(100%); } }
+
+        @keyframes story-cube-in-right {
+          from { transform-origin: left center; transform: translateX(100%) rotateY(90deg); }
+          to { transform-origin: left center; transform: translateX(0) rotateY(0); }
+        }
+        @keyframes story-cube-in-left {
+          from { transform-origin: right center; transform: translateX(-100%) rotateY(-90deg); }
+          to { transform-origin: right center; transform: translateX(0) rotateY(0); }
+        }
+        @keyframes story-cube-out-left {
+          from { transform-origin: right center; transform: translateX(0) rotateY(0); }
+          to { transform-origin: right center; transform: translateX(-100%) rotateY(-90deg); }
+        }
+        @keyframes story-cube-out-right {
+          from { transform-origin: left center; transform: translateX(0) rotateY(0); }
+          to { transform-origin: left center; transform: translateX(100%) rotateY(90deg); }
+        }
+
+        @keyframes story-fade-in { from { opacity: 0; } to { opacity: 1; } }
+        @keyframes story-fade-out { from { opacity: 1; } to { opacity: 0; } }
+
+        @keyframes story-page-turn {
+          from { transform-origin: left center; transform: rotateY(0); box-shadow: 0 0 0 rgba(0, 0, 0, 0); }
+          50% { box-shadow: 12px 0 30px rgba(0, 0, 0, 0.35); }
+          to { transform-origin: left center; transform: rotateY(-110deg); box-shadow: 0 0 0 rgba(0, 0, 0, 0); }
+        }
+        @keyframes story-page-unturn {
+          from { transform-origin: left center; transform: rotateY(-110deg); box-shadow: 0 0 0 rgba(0, 0, 0, 0); }
+          50% { box-shadow: 12px 0 30px rgba(0, 0, 0, 0.35); }
+          to { transform-origin: left center; transform: rotateY(0); box-shadow: 0 0 0 rgba(0, 0, 0, 0); }
+        }
+        @keyframes story-hold { from { opacity: 1; } to { opacity: 1; } }
+      `}</style>
+    </div>
+  )
+}
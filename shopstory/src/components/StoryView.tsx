@@ -1,6 +1,20 @@
-import {useState} from 'react'
+import {useCallback, useEffect, useMemo, useState, useSyncExternalStore} from 'react'
+import {useCloseMini} from '@shopify/shop-minis-react'
 import {StoryScreen} from './StoryScreen'
+import {StoryPicker} from './StoryPicker'
+import {StoryTransition, TransitionName, DEFAULT_TRANSITION} from './StoryTransition'
+import {getScreenRegistration, getScreenDuration, isScreenEligible, DataRequirement, ScreenEligibilityData} from './screens'
 import {usePreloadedData} from '../contexts/DataContext'
+import {StoryPlaybackProvider, StoryResumeOffer} from '../contexts/StoryPlaybackContext'
+import {useStoryTimer} from '../hooks/useStoryTimer'
+import {useStoryGestures} from '../hooks/useStoryGestures'
+import {useStoryProgress} from '../hooks/useStoryProgress'
+import {useAnalysisPrefetch} from '../hooks/useAnalysisPrefetch'
+import {usePeriodSummaryRecorder} from '../hooks/usePeriodSummary'
+import {useGeminiCache} from '../hooks/useGeminiCache'
+import {buildStoryLink, parseStoryLink, StoryLocation} from '../stories/storyLinks'
+import {isBranchTaken, ScreenCondition} from '../stories/storyBranches'
+import {analysisStore} from '../services/analysisStore'
 
 // Define the shape of our different screen types.
 export type ColorScreenData = {
@@ -50,32 +64,235 @@ export type ShareScreenData = {
   type: 'share'
 }
 
-// A screen can be one of the types we've defined.
-export type Screen = TitleScreenData | ColorScreenData | PopularProductsScreenData | CarbonFootprintScreenData | TopBrandsScreenData | PaletteScreenData | SmallBusinessScreenData | ShippingTimeScreenData | AestheticsScreenData | RecommendationsScreenData | ShareScreenData
+export type GreenerSwapsScreenData = {
+  type: 'greenerSwaps'
+}
+
+export type SmallBusinessSpotlightScreenData = {
+  type: 'smallBusinessSpotlight'
+}
+
+export type StyleShiftScreenData = {
+  type: 'styleShift'
+}
+
+export type ShoppingShiftScreenData = {
+  type: 'shoppingShift'
+}
+
+// A screen can be one of the types we've defined, tagged with the id it was configured with
+// and optionally overriding how long it stays up before auto-advancing and how it animates in.
+// A screen with `when` is a branch, only shown if an analysis result passes the condition.
+export type Screen = (TitleScreenData | ColorScreenData | PopularProductsScreenData | CarbonFootprintScreenData | TopBrandsScreenData | PaletteScreenData | SmallBusinessScreenData | ShippingTimeScreenData | AestheticsScreenData | RecommendationsScreenData | ShareScreenData | GreenerSwapsScreenData | SmallBusinessSpotlightScreenData | StyleShiftScreenData | ShoppingShiftScreenData) & {
+  id?: string
+  durationMs?: number
+  transition?: TransitionName
+  when?: ScreenCondition
+}
 
-// A story is an array of these screen types.
-type Story = {
+// How a story is shown in the story picker
+export type StoryCover = {
+  imageUrl?: string
+  color?: string
+}
+
+// A story is an array of these screen types, plus the title and cover shown in the picker.
+export type Story = {
   id: string
+  title: string
+  cover?: StoryCover
+  // Default transition for screens in this story that don't set their own
+  transition?: TransitionName
   screens: Screen[]
 }
 
+// How many screens ahead to start analyses for
+const PREFETCH_LOOKAHEAD = 3
+
 type StoryViewProps = {
   stories: Story[]
 }
 
+/**
+ * Find where the user should be after the eligible screens change: on the same screen if it's
+ * still there, otherwise the next one after it that is.
+ */
+function relocate(from: Story[], to: Story[], location: StoryLocation): StoryLocation {
+  const story = from[location.storyIndex]
+  const storyIndex = story ? to.findIndex(candidate => candidate.id === story.id) : -1
+  if (storyIndex === -1) {
+    // The whole story dropped out; carry on with the next one that didn't
+    const nextStory = from.slice(location.storyIndex + 1).find(candidate => to.some(({id}) => id === candidate.id))
+    return {storyIndex: nextStory ? to.findIndex(({id}) => id === nextStory.id) : 0, screenIndex: 0}
+  }
+  const remainingScreens = story.screens.slice(location.screenIndex)
+  const screenIndex = to[storyIndex].screens.findIndex(screen => remainingScreens.includes(screen))
+  return {storyIndex, screenIndex: screenIndex === -1 ? to[storyIndex].screens.length - 1 : screenIndex}
+}
+
 /**
  * Manages the state and navigation for the story-style interface.
+ * With more than one story it opens on a StoryPicker and returns there when a story is closed
+ * or the last one finishes; a single story plays on a loop as before.
+ * A deep link (see stories/storyLinks.ts) skips the picker and opens on the linked screen,
+ * and the URL is kept in step with navigation so it can be shared or reopened.
+ * Progress is saved between sessions (see useStoryProgress) and the title screen offers to resume it.
+ * Once the preloaded data is in, screens without enough data to be worth showing are left out
+ * (see isEligible on the screen registration), and so are stories left with no screens.
+ * Screens that need data which failed to load are left out too, while the title screen offers a retry;
+ * if saved products failed, the story waits on the title screen instead.
+ * Branch screens join the story when the analysis they depend on says so (see stories/storyBranches.ts).
+ * A summary of the period being recapped is stored as its analyses finish, for later comparisons.
  */
-export function StoryView({stories}: StoryViewProps) {
-  const [currentStoryIndex, setCurrentStoryIndex] = useState(0)
-  const [currentScreenIndex, setCurrentScreenIndex] = useState(0)
-  const {isDataReady} = usePreloadedData()
+export function StoryView({stories: configuredStories}: StoryViewProps) {
+  useGeminiCache()
+  const hasPicker = configuredStories.length > 1
+  const {
+    period,
+    savedProducts,
+    recommendedProducts,
+    popularProducts,
+    orders,
+    periodHistory,
+    savedProductsLoading,
+    recommendedProductsLoading,
+    popularProductsLoading,
+    ordersLoading,
+    periodHistoryLoading,
+    isDataReady,
+    status: dataStatus,
+    failedSources,
+  } = usePreloadedData()
+
+  const eligibilityData: ScreenEligibilityData | null = isDataReady
+    ? {
+      period,
+      savedProducts: savedProducts ?? [],
+      recommendedProducts: recommendedProducts ?? [],
+      popularProducts: popularProducts ?? [],
+      orders: orders ?? [],
+      periodHistory: periodHistory ?? [],
+    }
+    : null
+  // Read once on mount; afterwards the URL follows the state, not the other way round.
+  // The link is resolved against every configured screen, so it can open on a branch screen
+  // before the analysis its branch depends on has run. That screen stays in the story
+  // whether or not the branch is taken, and runs the analysis itself.
+  const [linkedLocation] = useState(() => parseStoryLink(window.location.search, configuredStories))
+  const linkedScreen = linkedLocation && configuredStories[linkedLocation.storyIndex].screens[linkedLocation.screenIndex]
+
+  // Only on partial failures; when saved products failed, nothing gets past the title screen anyway
+  const unavailableSources = new Set<string>(dataStatus === 'partial' ? failedSources : [])
+  const needsUnavailableData = (screen: Screen) =>
+    (getScreenRegistration(screen.type)?.dataRequirements ?? []).some(requirement => unavailableSources.has(requirement))
+  // Flattened to a string so the stories are only rebuilt when a screen's eligibility
+  // actually changes, not every time a data hook hands back a new array. Branches are
+  // re-checked whenever an analysis result lands in the store.
+  const eligibility = useSyncExternalStore(analysisStore.subscribe, () => configuredStories
+    .map(story => story.screens
+      .map(screen => (
+        isScreenEligible(screen, eligibilityData) &&
+        !needsUnavailableData(screen) &&
+        (screen === linkedScreen || isBranchTaken(screen, eligibilityData))
+          ? 'y'
+          : 'n'
+      ))
+      .join(''))
+    .join(','))
+  const stories = useMemo(() => {
+    const storyEligibility = eligibility.split(',')
+    return configuredStories
+      .map((story, storyIndex) => ({
+        ...story,
+        screens: story.screens.filter((_, screenIndex) => storyEligibility[storyIndex][screenIndex] === 'y'),
+      }))
+      .filter(story => story.screens.length > 0)
+  }, [configuredStories, eligibility])
+
+  const [initialLocation] = useState(() => linkedLocation && relocate(configuredStories, stories, linkedLocation))
+  const [isPickerOpen, setIsPickerOpen] = useState(hasPicker && !initialLocation)
+  const [currentStoryIndex, setCurrentStoryIndex] = useState(initialLocation?.storyIndex ?? 0)
+  const [currentScreenIndex, setCurrentScreenIndex] = useState(initialLocation?.screenIndex ?? 0)
+  // Stories the user has watched through to their last screen
+  const [seenStoryIds, setSeenStoryIds] = useState<ReadonlySet<string>>(() => new Set())
+  // Ids of mounted screens that have asked the timer to wait (see useStoryHold)
+  const [holders, setHolders] = useState<ReadonlySet<string>>(() => new Set())
+  // True while the user is pressing and holding the screen
+  const [isUserHolding, setIsUserHolding] = useState(false)
+  // Whether the user has answered, or navigated past, the offer to resume their last session
+  const [isResumeSettled, setIsResumeSettled] = useState(!!initialLocation)
+  const {closeMini} = useCloseMini()
+
+  // Keep the user on the same screen when the eligible screens change underneath them
+  const [shownStories, setShownStories] = useState(stories)
+  if (shownStories !== stories) {
+    const location = relocate(shownStories, stories, {storyIndex: currentStoryIndex, screenIndex: currentScreenIndex})
+    setShownStories(stories)
+    setCurrentStoryIndex(location.storyIndex)
+    setCurrentScreenIndex(location.screenIndex)
+  }
+
+  const productIds = useMemo(
+    () => (savedProductsLoading ? null : (savedProducts ?? []).map(product => product.id)),
+    [savedProducts, savedProductsLoading]
+  )
+  const {progress, isLoaded: isProgressLoaded, saveProgress, clearProgress} = useStoryProgress(productIds)
 
   const currentStory = stories[currentStoryIndex]
+  // ShareScreen offers every shareable screen, not just the ones in the current story
+  const allScreens = stories.flatMap(story => story.screens)
+
+  // The title screen holds the story until every screen in it has the data it needs
+  const isStoryDataReady = (story: Story) => {
+    const loading: Record<DataRequirement, boolean> = {
+      savedProducts: savedProductsLoading,
+      recommendedProducts: recommendedProductsLoading,
+      popularProducts: popularProductsLoading,
+      orders: ordersLoading,
+      periodHistory: periodHistoryLoading,
+    }
+    return story.screens.every(screen =>
+      (getScreenRegistration(screen.type)?.dataRequirements ?? []).every(requirement => !loading[requirement])
+    )
+  }
+
+  const setHold = useCallback((holderId: string, isHeld: boolean) => {
+    setHolders(current => {
+      if (current.has(holderId) === isHeld) {
+        return current
+      }
+      const next = new Set(current)
+      if (isHeld) {
+        next.add(holderId)
+      } else {
+        next.delete(holderId)
+      }
+      return next
+    })
+  }, [])
+
+  const isWaitingOnTitle = !!currentStory &&
+    currentScreenIndex === 0 &&
+    currentStory.screens[0].type === 'title' &&
+    (!isStoryDataReady(currentStory) || dataStatus === 'failed')
+
+  const openStory = (storyIndex: number) => {
+    setCurrentStoryIndex(storyIndex)
+    setCurrentScreenIndex(0)
+    setIsPickerOpen(false)
+  }
+
+  const closeStory = () => {
+    if (hasPicker) {
+      setIsPickerOpen(true)
+    } else {
+      closeMini()
+    }
+  }
 
   const handleNext = () => {
     // Don't allow navigation from title screen until data is ready
-    if (currentScreenIndex === 0 && currentStory.screens[0].type === 'title' && !isDataReady) {
+    if (isWaitingOnTitle) {
       return
     }
     if (currentScreenIndex < currentStory.screens.length - 1) {
@@ -83,6 +300,8 @@ export function StoryView({stories}: StoryViewProps) {
     } else if (currentStoryIndex < stories.length - 1) {
       setCurrentStoryIndex(currentStoryIndex + 1)
       setCurrentScreenIndex(0)
+    } else if (hasPicker) {
+      setIsPickerOpen(true)
     } else {
       setCurrentStoryIndex(0)
       setCurrentScreenIndex(0)
@@ -99,40 +318,218 @@ export function StoryView({stories}: StoryViewProps) {
     // If we're at the very first screen, do nothing (can't go back further)
   }
 
-  if (!currentStory) {
+  const handleNextStory = () => {
+    if (currentStoryIndex < stories.length - 1) {
+      setCurrentStoryIndex(currentStoryIndex + 1)
+      setCurrentScreenIndex(0)
+    } else if (hasPicker) {
+      setIsPickerOpen(true)
+    }
+  }
+
+  const handlePreviousStory = () => {
+    // On the first story this just restarts it
+    setCurrentStoryIndex(Math.max(0, currentStoryIndex - 1))
+    setCurrentScreenIndex(0)
+  }
+
+  const gestureHandlers = useStoryGestures({
+    onPreviousScreen: handlePrevious,
+    onNextScreen: handleNext,
+    onPreviousStory: handlePreviousStory,
+    onNextStory: handleNextStory,
+    onExit: closeStory,
+    onHoldChange: setIsUserHolding,
+  }, !isPickerOpen)
+
+  const currentScreen = currentStory?.screens[currentScreenIndex]
+  const isTimedScreen = !!currentScreen && getScreenRegistration(currentScreen.type)?.progress !== 'static'
+  const isPaused = isUserHolding || holders.size > 0 || isWaitingOnTitle
+  const durationMs = currentScreen ? getScreenDuration(currentScreen) : 0
+
+  const linkedStoryId = isPickerOpen ? undefined : currentStory?.id
+  const linkedScreenId = isPickerOpen ? undefined : currentScreen?.id
+  useEffect(() => {
+    const url = buildStoryLink({storyId: linkedStoryId, screenId: linkedScreenId})
+    if (url !== window.location.href) {
+      // replaceState so navigating screens doesn't pile up browser history
+      window.history.replaceState(window.history.state, '', url)
+    }
+    return undefined
+  }, [linkedStoryId, linkedScreenId])
+
+  // Reaching a story's last screen marks it as seen in the picker
+  const isOnLastScreen = !!currentStory && currentScreenIndex === currentStory.screens.length - 1
+  useEffect(() => {
+    if (isPickerOpen || !isOnLastScreen) {
+      return undefined
+    }
+    setSeenStoryIds(current => current.has(currentStory.id) ? current : new Set(current).add(currentStory.id))
+    return undefined
+  }, [isPickerOpen, isOnLastScreen, currentStory])
+
+  // Where the previous session stopped, unless that was the very start anyway
+  const resumeLocation = useMemo(() => {
+    if (!progress) {
+      return null
+    }
+    const storyIndex = stories.findIndex(story => story.id === progress.storyId)
+    const screenIndex = storyIndex === -1
+      ? -1
+      : stories[storyIndex].screens.findIndex(screen => screen.id === progress.screenId)
+    if (screenIndex === -1 || (storyIndex === 0 && screenIndex === 0)) {
+      return null
+    }
+    return {storyIndex, screenIndex}
+  }, [progress, stories])
+
+  // Bring back the seen rings from the previous session
+  useEffect(() => {
+    if (!progress) {
+      return undefined
+    }
+    setSeenStoryIds(current => new Set([...current, ...progress.seenStoryIds]))
+    return undefined
+  }, [progress])
+
+  // Moving off the first screen without answering counts as starting over
+  useEffect(() => {
+    if (currentStoryIndex !== 0 || currentScreenIndex !== 0) {
+      setIsResumeSettled(true)
+    }
+    return undefined
+  }, [currentStoryIndex, currentScreenIndex])
+
+  const isResumeOffered = !isResumeSettled &&
+    !isPickerOpen &&
+    isProgressLoaded &&
+    !!resumeLocation &&
+    currentScreen?.type === 'title'
+
+  const resumeOffer = useMemo<StoryResumeOffer | null>(() => {
+    if (!isResumeOffered || !resumeLocation) {
+      return null
+    }
+    return {
+      storyTitle: stories[resumeLocation.storyIndex].title,
+      onContinue: () => {
+        setIsResumeSettled(true)
+        setCurrentStoryIndex(resumeLocation.storyIndex)
+        setCurrentScreenIndex(resumeLocation.screenIndex)
+      },
+      onStartOver: () => {
+        setIsResumeSettled(true)
+        setSeenStoryIds(new Set())
+        clearProgress()
+      },
+    }
+  }, [isResumeOffered, resumeLocation, stories, clearProgress])
+
+  // Don't overwrite the stored session while the user is still deciding whether to resume it
+  const savedStoryId = isPickerOpen || !isProgressLoaded || isResumeOffered ? undefined : currentStory?.id
+  useEffect(() => {
+    if (!savedStoryId || !currentScreen) {
+      return undefined
+    }
+    saveProgress({
+      storyId: savedStoryId,
+      screenId: currentScreen.id ?? currentScreen.type,
+      seenStoryIds: [...seenStoryIds],
+    })
+    return undefined
+  }, [savedStoryId, currentScreen, seenStoryIds, saveProgress])
+
+  // Position across every story, so transitions know whether the user moved forward or back
+  const screenPosition = stories
+    .slice(0, currentStoryIndex)
+    .reduce((count, story) => count + story.screens.length, currentScreenIndex)
+
+  // From the picker any story could be next, so warm up the start of each one
+  const upcomingScreens = useMemo(
+    () => isPickerOpen
+      ? stories.flatMap(story => story.screens.slice(0, PREFETCH_LOOKAHEAD))
+      : stories.flatMap(story => story.screens).slice(screenPosition + 1, screenPosition + 1 + PREFETCH_LOOKAHEAD),
+    [isPickerOpen, stories, screenPosition]
+  )
+  useAnalysisPrefetch(upcomingScreens)
+  usePeriodSummaryRecorder()
+
+  useStoryTimer({
+    durationMs,
+    enabled: isTimedScreen && !isPickerOpen,
+    paused: isPaused,
+    resetKey: `${currentStory?.id}:${currentScreenIndex}`,
+    onComplete: handleNext,
+  })
+
+  // Also covers the render that's thrown away while the user is being relocated
+  if (!currentStory || !currentScreen) {
     return null
   }
 
+
+  if (isPickerOpen) {
+    return <StoryPicker stories={stories} seenStoryIds={seenStoryIds} onSelect={openStory} />
+  }
+
   return (
     <div className="w-full h-screen bg-black flex items-center justify-center">
       <div className="w-full max-w-md h-full flex flex-col items-center justify-center p-4">
+        {hasPicker && (
+          <div className="flex w-full items-center justify-between text-white mb-2">
+            <span className="text-sm font-semibold">
+              {currentStory.title}
+              {period.preset !== 'allTime' && <span className="font-normal text-gray-400"> · {period.label}</span>}
+            </span>
+            <button
+              onClick={closeStory}
+              aria-label="Back to stories"
+              className="w-8 h-8 flex items-center justify-center text-xl text-gray-300 hover:text-white"
+            >
+              ×
+            </button>
+          </div>
+        )}
         <div className="flex w-full mb-2">
-          {currentStory.screens.map((screen, index) => {
+          {currentStory.screens.map((_, index) => {
             const isCurrentScreen = index === currentScreenIndex
-            const isShareScreen = isCurrentScreen && screen.type === 'share'
+            const isStaticScreen = isCurrentScreen && !isTimedScreen
             
             return (
-              <div key={index} className="flex-1 h-1 bg-gray-600 mx-0.5 rounded-full">
+              <div key={`${currentStory.id}-${index}`} className="flex-1 h-1 bg-gray-600 mx-0.5 rounded-full">
                 <div
                   className={`h-full rounded-full ${
                     index < currentScreenIndex ? 'bg-white' : 'bg-transparent'
-                  } ${isCurrentScreen && !isShareScreen ? 'bg-white animate-progress' : ''} ${isShareScreen ? 'bg-white' : ''}`}
+                  } ${isCurrentScreen && !isStaticScreen ? 'bg-white animate-progress' : ''} ${isStaticScreen ? 'bg-white' : ''}`}
                   style={{
-                    animationDuration: isShareScreen ? '0s' : '5s', // No animation for share screen
+                    // Runs for the same duration as the auto-advance timer and pauses with it
+                    animationDuration: isStaticScreen ? '0s' : `${durationMs}ms`, // No animation for static screens like share
                     animationTimingFunction: 'linear',
                     animationFillMode: 'forwards',
+                    animationPlayState: isPaused ? 'paused' : 'running',
                   }}
                 />
               </div>
             )
           })}
         </div>
-        <StoryScreen
-          onNext={handleNext}
-          onPrevious={handlePrevious}
-          screen={currentStory.screens[currentScreenIndex]}
-          allScreens={currentStory.screens}
-        />
+        <div className="w-full h-full select-none relative overflow-hidden" {...gestureHandlers}>
+          <StoryTransition
+            screenKey={`${currentStory.id}:${currentScreenIndex}`}
+            storyKey={currentStory.id}
+            position={screenPosition}
+            transition={currentScreen.transition ?? currentStory.transition ?? DEFAULT_TRANSITION}
+          >
+            <StoryPlaybackProvider setHold={setHold} resume={resumeOffer}>
+              <StoryScreen
+                onNext={handleNext}
+                onPrevious={handlePrevious}
+                screen={currentScreen}
+                allScreens={allScreens}
+              />
+            </StoryPlaybackProvider>
+          </StoryTransition>
+        </div>
       </div>
       <style>{`
         @keyframes progress {
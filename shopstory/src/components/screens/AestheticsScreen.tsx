@@ -1,44 +1,52 @@
 import {useState, useEffect} from 'react'
 import {geminiService, AestheticsAnalysis} from '../../services/gemini'
+import {ScreenAnalysis} from '../../services/analysisScheduler'
 import {usePreloadedSavedProducts} from '../../contexts/DataContext'
+import {useStoryHold} from '../../contexts/StoryPlaybackContext'
+import {useScreenAnalysis} from '../../hooks/useScreenAnalysis'
+import {AnalysisFallbackNote, describeAnalysisProblem} from '../AnalysisFallbackNote'
+import {registerScreen} from './registry'
 
 type AestheticsScreenProps = {
   onNext: () => void
   onPrevious: () => void
 }
 
+const aestheticsAnalysis: ScreenAnalysis<AestheticsAnalysis> = {
+  type: 'aesthetics',
+  source: 'savedProducts',
+  productLimit: 15,
+  failureMessage: 'Failed to analyze aesthetics',
+  analyze: (products, period, signal) => {
+    // Prepare product data for analysis
+    const productsData = products.map(product => ({
+      id: product.id,
+      title: product.title,
+      description: product.description,
+      vendor: product.vendor,
+      productType: product.productType,
+      imageUrl: product.featuredImage?.url || '',
+    }))
+
+    console.log('Starting aesthetics analysis for', productsData.length, 'products')
+    return geminiService.analyzeAesthetics(productsData, period, signal)
+  },
+}
+
 /**
  * A screen component that analyzes saved products to generate a Spotify Daylist-style
  * headline and identifies the user's top 3 style aesthetics with percentages.
  * Now styled with scrapbook theme to match TitleScreen.
  */
-export function AestheticsScreen({onNext, onPrevious}: AestheticsScreenProps) {
-  const handleClick = (e: React.MouseEvent) => {
-    const rect = e.currentTarget.getBoundingClientRect()
-    const clickX = e.clientX - rect.left
-    const screenWidth = rect.width
-    
-    // If clicked on left half, go back; if clicked on right half, go forward
-    if (clickX < screenWidth / 2) {
-      onPrevious()
-    } else {
-      onNext()
-    }
-  }
-  const {products, loading: productsLoading, error: productsError} = usePreloadedSavedProducts({first: 15})
+export function AestheticsScreen({onNext}: AestheticsScreenProps) {
+  const {products, loading: productsLoading, error: productsError} = usePreloadedSavedProducts({first: aestheticsAnalysis.productLimit})
 
-  const [analysis, setAnalysis] = useState<AestheticsAnalysis | null>(null)
-  const [isAnalyzing, setIsAnalyzing] = useState(false)
-  const [analysisError, setAnalysisError] = useState<string | null>(null)
-  const [hasStartedAnalysis, setHasStartedAnalysis] = useState(false)
-  const [showResults, setShowResults] = useState(false)
+  const {data: analysis, error: analysisError, errorKind, isAnalyzing} = useScreenAnalysis(aestheticsAnalysis, productsLoading ? null : products)
+  // A result that's already in the store (prefetched, or seen earlier) shows straight away
+  const [showResults, setShowResults] = useState(!!analysis)
 
-  // Automatically start analysis when products are loaded
-  useEffect(() => {
-    if (products && products.length > 0 && !hasStartedAnalysis && !isAnalyzing && !analysis) {
-      startAestheticsAnalysis()
-    }
-  }, [products, hasStartedAnalysis, isAnalyzing, analysis])
+  // Hold the story timer until the aesthetic breakdown is actually showing
+  useStoryHold(productsLoading || isAnalyzing || (!!analysis && !showResults))
 
   // Add delay before showing results
   useEffect(() => {
@@ -52,49 +60,6 @@ export function AestheticsScreen({onNext, onPrevious}: AestheticsScreenProps) {
     return undefined
   }, [analysis, showResults])
 
-  const startAestheticsAnalysis = async (): Promise<void> => {
-    if (!products || products.length === 0) {
-      setAnalysisError('No saved products found to analyze')
-      return
-    }
-
-    setIsAnalyzing(true)
-    setAnalysisError(null)
-    setHasStartedAnalysis(true)
-
-    try {
-      // Prepare product data for analysis
-      const productsData = products.map(product => ({
-        id: product.id,
-        title: product.title,
-        description: (product as any).description || '',
-        vendor: (product as any).vendor || '',
-        productType: (product as any).productType || '',
-        imageUrl: product.featuredImage?.url || '',
-      }))
-
-      console.log('Starting aesthetics analysis for', productsData.length, 'products')
-      
-      const result = await geminiService.analyzeAesthetics(productsData)
-
-      console.log('Aesthetics analysis result:', result)
-      
-      if (result.success && result.data) {
-        console.log('Analysis successful - Headline:', result.data.headline)
-        console.log('Top aesthetics:', result.data.topAesthetics?.map((a: any) => `${a.name} ${a.percentage}%`))
-        setAnalysis(result.data)
-      } else {
-        console.error('Aesthetics analysis failed:', result.error)
-        setAnalysisError(result.error || 'Failed to analyze aesthetics')
-      }
-    } catch (error) {
-      console.error('Aesthetics analysis error:', error)
-      setAnalysisError('An unexpected error occurred during analysis')
-    } finally {
-      setIsAnalyzing(false)
-    }
-  }
-
   // Base scrapbook background style
   const scrapbookStyle = {
     background: `
@@ -120,7 +85,6 @@ export function AestheticsScreen({onNext, onPrevious}: AestheticsScreenProps) {
     return (
       <div 
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer relative overflow-hidden" 
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -144,7 +108,6 @@ export function AestheticsScreen({onNext, onPrevious}: AestheticsScreenProps) {
     return (
       <div
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -169,7 +132,6 @@ export function AestheticsScreen({onNext, onPrevious}: AestheticsScreenProps) {
     return (
       <div
         className="w-full h-full rounded-lg p-8 flex flex-col items-center justify-center cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -193,10 +155,7 @@ export function AestheticsScreen({onNext, onPrevious}: AestheticsScreenProps) {
             Start saving products to discover your unique aesthetic DNA and style personality!
           </p>
           <button
-            onClick={(e) => {
-              e.stopPropagation()
-              onNext()
-            }}
+            onClick={onNext}
             className="bg-amber-800 text-white px-8 py-4 rounded-lg font-semibold text-lg hover:bg-amber-900 transition-all duration-300 transform hover:scale-105 shadow-lg hover:shadow-xl border border-amber-700"
           >
             Continue Journey
@@ -211,7 +170,6 @@ export function AestheticsScreen({onNext, onPrevious}: AestheticsScreenProps) {
     return (
       <div 
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer overflow-hidden relative" 
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -231,10 +189,7 @@ export function AestheticsScreen({onNext, onPrevious}: AestheticsScreenProps) {
           </h3>
           <p className="text-amber-800 mb-8 text-lg">Decoding your main character energy...</p>
           <button 
-            onClick={(e) => {
-              e.stopPropagation()
-              onNext()
-            }}
+            onClick={onNext}
             className="bg-white/90 backdrop-blur-md border-2 border-amber-300 text-amber-800 px-8 py-3 rounded-lg hover:bg-white transition-all duration-300 font-semibold shadow-md hover:shadow-lg transform hover:scale-105"
           >
             Skip Analysis
@@ -249,7 +204,6 @@ export function AestheticsScreen({onNext, onPrevious}: AestheticsScreenProps) {
     return (
       <div
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -263,12 +217,9 @@ export function AestheticsScreen({onNext, onPrevious}: AestheticsScreenProps) {
             </svg>
           </div>
           <h3 className="text-2xl font-bold mb-2 text-amber-900">That's Not Very Aesthetic</h3>
-          <p className="text-amber-800 text-lg mb-4">The vibe reader broke: {analysisError}</p>
+          <p className="text-amber-800 text-lg mb-4">The vibe reader broke: {describeAnalysisProblem(errorKind) ?? analysisError}</p>
           <button
-            onClick={(e) => {
-              e.stopPropagation()
-              onNext()
-            }}
+            onClick={onNext}
             className="bg-white/90 backdrop-blur-md border-2 border-amber-300 text-amber-800 px-6 py-3 rounded-lg hover:bg-white transition-all duration-300 font-semibold shadow-md"
           >
             Continue
@@ -283,7 +234,6 @@ export function AestheticsScreen({onNext, onPrevious}: AestheticsScreenProps) {
     return (
       <div
         className="w-full h-full rounded-lg p-4 overflow-y-auto cursor-pointer relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -371,6 +321,7 @@ export function AestheticsScreen({onNext, onPrevious}: AestheticsScreenProps) {
           </div>
         )}
 
+        <AnalysisFallbackNote errorKind={errorKind} />
       </div>
     )
   }
@@ -379,7 +330,6 @@ export function AestheticsScreen({onNext, onPrevious}: AestheticsScreenProps) {
   return (
     <div 
       className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer relative" 
-      onClick={handleClick}
       style={scrapbookStyle}
     >
       {/* Decorative tape pieces */}
@@ -396,4 +346,17 @@ export function AestheticsScreen({onNext, onPrevious}: AestheticsScreenProps) {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+registerScreen({
+  type: 'aesthetics',
+  component: AestheticsScreen,
+  dataRequirements: ['savedProducts'],
+  shareable: true,
+  shareText: 'Check out my shopping aesthetic analysis! 🛍️✨',
+  progress: 'timed',
+  durationMs: 10000,
+  analysis: aestheticsAnalysis,
+  // One or two products aren't enough to read a style from
+  isEligible: ({savedProducts}) => savedProducts.length >= 3,
+})
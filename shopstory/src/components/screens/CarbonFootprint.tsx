@@ -1,45 +1,57 @@
 import {useState, useEffect} from 'react'
 import {ProductCard} from '@shopify/shop-minis-react'
 import {geminiService, CarbonFootprintAnalysis} from '../../services/gemini'
+import {ScreenAnalysis} from '../../services/analysisScheduler'
 import {usePreloadedSavedProducts} from '../../contexts/DataContext'
+import {useStoryHold} from '../../contexts/StoryPlaybackContext'
+import {useScreenAnalysis} from '../../hooks/useScreenAnalysis'
+import {AnalysisFallbackNote, describeAnalysisProblem} from '../AnalysisFallbackNote'
+import {registerScreen} from './registry'
 
 type CarbonFootprintScreenProps = {
   onNext: () => void
   onPrevious: () => void
 }
 
+export const carbonFootprintAnalysis: ScreenAnalysis<CarbonFootprintAnalysis> = {
+  type: 'carbonFootprint',
+  source: 'savedProducts',
+  productLimit: 20,
+  failureMessage: 'Failed to analyze carbon footprint',
+  analyze: (products, period, signal) => {
+    const productsData = products.map(product => ({
+      id: product.id,
+      title: product.title || 'Unknown Product',
+      description: product.description,
+      vendor: product.vendor,
+      productType: product.productType || 'Unknown Type',
+    }))
+
+    console.log('Processed products data:', productsData)
+    return geminiService.analyzeCarbonFootprint(productsData, period, signal)
+  },
+}
+
 /**
  * A screen component that analyzes the carbon footprint of saved products
  * using Gemini LLM integration. Shows total emissions and eco-friendly rankings.
  * Now styled with scrapbook theme and green environmental accents.
  */
-export function CarbonFootprintScreen({onNext, onPrevious}: CarbonFootprintScreenProps) {
-  const handleClick = (e: React.MouseEvent) => {
-    const rect = e.currentTarget.getBoundingClientRect()
-    const clickX = e.clientX - rect.left
-    const screenWidth = rect.width
-    
-    // If clicked on left half, go back; if clicked on right half, go forward
-    if (clickX < screenWidth / 2) {
-      onPrevious()
-    } else {
-      onNext()
-    }
-  }
-  const {products, loading: productsLoading, error: productsError} = usePreloadedSavedProducts({first: 20})
+export function CarbonFootprintScreen({onNext}: CarbonFootprintScreenProps) {
+  const {products, loading: productsLoading, error: productsError} = usePreloadedSavedProducts({first: carbonFootprintAnalysis.productLimit})
 
-  const [analysis, setAnalysis] = useState<CarbonFootprintAnalysis | null>(null)
-  const [isAnalyzing, setIsAnalyzing] = useState(false)
-  const [analysisError, setAnalysisError] = useState<string | null>(null)
-  const [hasStartedAnalysis, setHasStartedAnalysis] = useState(false)
+  const {
+    data: analysis,
+    error: analysisError,
+    errorKind,
+    isAnalyzing,
+    hasStarted: hasStartedAnalysis,
+    retry,
+  } = useScreenAnalysis(carbonFootprintAnalysis, productsLoading ? null : products)
   const [showResults, setShowResults] = useState(false)
 
-  // Automatically start analysis when products are loaded
-  useEffect(() => {
-    if (products && products.length > 0 && !hasStartedAnalysis && !isAnalyzing && !analysis) {
-      startAnalysis()
-    }
-  }, [products, hasStartedAnalysis, isAnalyzing, analysis])
+  // Pause auto-advance until the footprint numbers are in
+  useStoryHold(productsLoading || isAnalyzing || (!!analysis && !showResults))
 
   // Show results immediately when analysis is complete
   useEffect(() => {
@@ -48,61 +60,6 @@ export function CarbonFootprintScreen({onNext, onPrevious}: CarbonFootprintScree
     }
   }, [analysis, showResults])
 
-  const startAnalysis = async () => {
-    if (!products || products.length === 0) {
-      setAnalysisError('No saved products found to analyze')
-      return
-    }
-
-    setIsAnalyzing(true)
-    setAnalysisError(null)
-    setHasStartedAnalysis(true)
-
-    try {
-      const productsData = products.map(product => {
-        // Debug: Log the actual product structure
-        console.log('Product structure:', JSON.stringify(product, null, 2))
-        
-        // Extract data more carefully from the Shopify product
-        const title = product.title || 'Unknown Product'
-        const description = (product as any).description || 
-                           (product as any).excerpt || 
-                           (product as any).summary || 
-                           ''
-        const vendor = (product as any).vendor || 
-                      product.shop?.name || 
-                      'Unknown Vendor'
-        const productType = (product as any).productType || 
-                           (product as any).category || 
-                           (product as any).type ||
-                           'Unknown Type'
-
-        return {
-          id: product.id,
-          title: title,
-          description: description,
-          vendor: vendor,
-          productType: productType,
-        }
-      })
-
-      console.log('Processed products data:', productsData)
-
-      const result = await geminiService.analyzeCarbonFootprint(productsData)
-
-      if (result.success && result.data) {
-        setAnalysis(result.data)
-      } else {
-        setAnalysisError(result.error || 'Failed to analyze carbon footprint')
-      }
-    } catch (error) {
-      setAnalysisError('An unexpected error occurred during analysis')
-      console.error('Analysis error:', error)
-    } finally {
-      setIsAnalyzing(false)
-    }
-  }
-
   // Base scrapbook background style
   const scrapbookStyle = {
     background: `
@@ -147,7 +104,6 @@ export function CarbonFootprintScreen({onNext, onPrevious}: CarbonFootprintScree
     return (
       <div
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer p-4 relative overflow-hidden"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -168,7 +124,6 @@ export function CarbonFootprintScreen({onNext, onPrevious}: CarbonFootprintScree
     return (
       <div
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer p-4 relative overflow-hidden"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -236,7 +191,6 @@ export function CarbonFootprintScreen({onNext, onPrevious}: CarbonFootprintScree
     return (
       <div
         className="w-full h-full rounded-lg p-4 overflow-y-auto cursor-pointer relative"
-        onClick={handleClick}
         style={{
           ...scrapbookStyle,
           animation: 'fadeIn 1.2s ease-in-out forwards',
@@ -307,8 +261,7 @@ export function CarbonFootprintScreen({onNext, onPrevious}: CarbonFootprintScree
               const rotations = ['rotate-2', '-rotate-1', 'rotate-1']
               const rotation = rotations[index] || 'rotate-0'
               
-              const handleProductClick = (e: React.MouseEvent) => {
-                e.stopPropagation() // Prevent triggering the main click handler
+              const handleProductClick = () => {
                 if (originalProduct) {
                   // Open product in shop app instead of URL
                   window.open(`shopify://product/${originalProduct.id}`, '_self')
@@ -330,9 +283,10 @@ export function CarbonFootprintScreen({onNext, onPrevious}: CarbonFootprintScree
                         <div 
                           className="flex-shrink-0 w-16 h-16 overflow-hidden rounded-lg bg-amber-50 border border-amber-200 cursor-pointer hover:opacity-80 transition-opacity"
                           onClick={handleProductClick}
+                          data-story-gestures="none" // Tapping the product opens it rather than changing screens
                         >
                           <div className="transform scale-[0.32] origin-top-left w-[200px] h-[200px]">
-                            <ProductCard product={originalProduct} />
+                            <ProductCard product={originalProduct.source} />
                           </div>
                         </div>
                       ) : (
@@ -354,8 +308,7 @@ export function CarbonFootprintScreen({onNext, onPrevious}: CarbonFootprintScree
           </div>
         </div>
 
-
-
+        <AnalysisFallbackNote errorKind={errorKind} />
       </div>
     )
   }
@@ -373,19 +326,16 @@ export function CarbonFootprintScreen({onNext, onPrevious}: CarbonFootprintScree
         
         <p className="text-2xl mb-4">⚠️</p>
         <p className="text-lg font-semibold mb-2 text-amber-900">That's Not Very Eco of Us</p>
-        <p className="text-sm text-center mb-4 text-amber-800">The sustainability check failed: {analysisError}</p>
+        <p className="text-sm text-center mb-4 text-amber-800">The sustainability check failed: {describeAnalysisProblem(errorKind) ?? analysisError}</p>
         <div className="space-y-2 w-full max-w-xs">
           <button
-            onClick={() => {
-              setAnalysisError(null)
-              setHasStartedAnalysis(false)
-            }}
+            onClick={retry}
             className="w-full bg-amber-700 hover:bg-amber-800 text-white font-medium py-2 px-4 rounded-lg transition-colors border border-amber-600"
           >
             Try Again
           </button>
           <button
-            onClick={handleClick}
+            onClick={onNext}
             className="w-full bg-amber-600 hover:bg-amber-700 text-white font-medium py-2 px-4 rounded-lg transition-colors border border-amber-500"
           >
             Skip
@@ -412,4 +362,16 @@ export function CarbonFootprintScreen({onNext, onPrevious}: CarbonFootprintScree
       {null}
     </>
   )
-}
\ No newline at end of file
+}
+
+registerScreen({
+  type: 'carbonFootprint',
+  component: CarbonFootprintScreen,
+  dataRequirements: ['savedProducts'],
+  shareable: true,
+  shareText: 'Just discovered my shopping carbon footprint! 🌱♻️',
+  progress: 'timed',
+  durationMs: 10000,
+  analysis: carbonFootprintAnalysis,
+  isEligible: ({savedProducts}) => savedProducts.length >= 2,
+})
@@ -1,4 +1,5 @@
 import {ColorScreenData} from '../StoryView'
+import {registerScreen} from './registry'
 
 type ColorScreenProps = {
   onNext: () => void
@@ -9,19 +10,7 @@ type ColorScreenProps = {
 /**
  * Renders a scrapbook-themed screen with decorative elements based on the content.
  */
-export function ColorScreen({onNext, onPrevious, screen}: ColorScreenProps) {
-  const handleClick = (e: React.MouseEvent) => {
-    const rect = e.currentTarget.getBoundingClientRect()
-    const clickX = e.clientX - rect.left
-    const screenWidth = rect.width
-    
-    // If clicked on left half, go back; if clicked on right half, go forward
-    if (clickX < screenWidth / 2) {
-      onPrevious()
-    } else {
-      onNext()
-    }
-  }
+export function ColorScreen({screen}: ColorScreenProps) {
 
   const isEnvironmentalScreen = screen.text.toLowerCase().includes('earth')
   const isShippingScreen = screen.text.toLowerCase().includes('shipping')
@@ -69,7 +58,6 @@ export function ColorScreen({onNext, onPrevious, screen}: ColorScreenProps) {
           backgroundSize: '40px 40px, 60px 60px, 30px 30px, 8px 8px, 12px 12px, 100% 100%',
           boxShadow: 'inset 0 0 120px rgba(34, 139, 34, 0.1), inset 0 0 40px rgba(34, 139, 34, 0.05)',
         }}
-        onClick={handleClick}
       >
         
         {/* Decorative tape pieces in corners */}
@@ -164,7 +152,6 @@ export function ColorScreen({onNext, onPrevious, screen}: ColorScreenProps) {
           backgroundSize: '40px 40px, 60px 60px, 30px 30px, 8px 8px, 12px 12px, 100% 100%',
           boxShadow: 'inset 0 0 120px rgba(30, 144, 255, 0.1), inset 0 0 40px rgba(30, 144, 255, 0.05)',
         }}
-        onClick={handleClick}
       >
         
         {/* Decorative tape pieces in corners */}
@@ -223,9 +210,17 @@ export function ColorScreen({onNext, onPrevious, screen}: ColorScreenProps) {
   return (
     <div
       className={`w-full h-full rounded-lg flex items-center justify-center text-white text-2xl font-bold text-center p-4 cursor-pointer ${screen.value}`}
-      onClick={handleClick}
     >
       <p>{screen.text}</p>
     </div>
   )
-}
\ No newline at end of file
+}
+
+registerScreen({
+  type: 'color',
+  component: ColorScreen,
+  options: {value: 'string', text: 'string'},
+  dataRequirements: [],
+  shareable: false,
+  progress: 'timed',
+})
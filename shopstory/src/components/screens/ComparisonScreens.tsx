@@ -0,0 +1,162 @@
+import {useStoryPeriod, usePreloadedPeriodHistory} from '../../contexts/DataContext'
+import {useStoryHold} from '../../contexts/StoryPlaybackContext'
+import {useCurrentPeriodSummary} from '../../hooks/usePeriodSummary'
+import {compareSummaries, findPreviousSummary, SummaryDeltaCategory} from '../../services/periodSummary'
+import {registerScreen, ScreenEligibilityData} from './registry'
+
+type ComparisonScreenProps = {
+  onNext: () => void
+  onPrevious: () => void
+}
+
+const COMPARISON_HEADINGS: Record<SummaryDeltaCategory, {emoji: string; title: string}> = {
+  style: {emoji: '🔁', title: 'Your Style Shift'},
+  shopping: {emoji: '📈', title: 'Your Shopping Shift'},
+}
+
+/**
+ * How the period being recapped compares with the one before it, as remembered from an
+ * earlier session (see services/periodSummary.ts). Only changes big enough to mention
+ * get a card. Analyses that haven't finished yet, e.g. after a deep link, are left out
+ * of the comparison rather than waited on.
+ */
+function ComparisonScreen({category, onNext}: {category: SummaryDeltaCategory; onNext: () => void}) {
+  const {period} = useStoryPeriod()
+  const {history, loading: historyLoading} = usePreloadedPeriodHistory()
+  const summary = useCurrentPeriodSummary()
+  const previous = history ? findPreviousSummary(history, period) : undefined
+
+  useStoryHold(historyLoading || !summary)
+
+  const deltas = summary && previous
+    ? compareSummaries(summary, previous).filter(delta => delta.category === category)
+    : []
+  const heading = COMPARISON_HEADINGS[category]
+
+  // Base scrapbook background style
+  const scrapbookStyle = {
+    background: `
+      radial-gradient(circle at 20% 30%, rgba(139, 69, 19, 0.03) 1px, transparent 1px),
+      radial-gradient(circle at 80% 70%, rgba(139, 69, 19, 0.02) 1px, transparent 1px),
+      radial-gradient(circle at 40% 80%, rgba(139, 69, 19, 0.02) 1px, transparent 1px),
+      linear-gradient(90deg, rgba(139, 69, 19, 0.01) 50%, transparent 50%),
+      linear-gradient(180deg, rgba(139, 69, 19, 0.01) 50%, transparent 50%),
+      linear-gradient(135deg,
+        #faf5f0 0%,
+        #f7f1ea 25%,
+        #f5ede4 50%,
+        #f3e9de 75%,
+        #f1e5d8 100%
+      )
+    `,
+    backgroundSize: '40px 40px, 60px 60px, 30px 30px, 8px 8px, 12px 12px, 100% 100%',
+    boxShadow: 'inset 0 0 120px rgba(139, 69, 19, 0.1), inset 0 0 40px rgba(139, 69, 19, 0.05)',
+  }
+
+  if (!previous || deltas.length === 0) {
+    const isLoading = historyLoading || !summary
+    return (
+      <div
+        className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 p-4 relative overflow-hidden"
+        style={scrapbookStyle}
+      >
+        {/* Decorative tape pieces */}
+        <div className="absolute top-5 left-5 w-10 h-4 bg-white bg-opacity-80 border border-amber-200 shadow-sm transform -rotate-12 z-20" style={{ borderRadius: '1px' }} />
+
+        <div className="text-center z-10">
+          <div className={`text-3xl mb-4 ${isLoading ? 'animate-pulse' : ''}`}>{heading.emoji}</div>
+          <p className="text-lg font-semibold text-amber-900">
+            {isLoading
+              ? 'Digging out your old receipts...'
+              : previous
+                ? `Not much has shifted since ${previous.label}`
+                : 'Nothing to compare with yet'}
+          </p>
+          {!isLoading && (
+            <button
+              onClick={onNext}
+              className="mt-4 bg-amber-700 hover:bg-amber-800 text-white font-medium py-2 px-6 rounded-lg transition-colors border border-amber-600"
+            >
+              Continue
+            </button>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className="w-full h-full rounded-lg p-4 overflow-y-auto relative"
+      style={scrapbookStyle}
+    >
+      {/* Decorative tape pieces */}
+      <div className="absolute top-2 left-3 w-8 h-3 bg-white bg-opacity-90 border border-amber-300 shadow-sm transform -rotate-12 z-20" style={{ borderRadius: '1px' }} />
+      <div className="absolute top-2 right-3 w-7 h-3 bg-white bg-opacity-90 border border-amber-300 shadow-sm transform rotate-12 z-20" style={{ borderRadius: '1px' }} />
+
+      <div className="text-center mb-6 relative z-10">
+        <h2 className="text-2xl font-bold text-amber-900">
+          {heading.emoji} {heading.title}
+        </h2>
+        <p className="text-sm text-amber-800 mt-2">
+          {period.label} vs {previous.label}
+        </p>
+      </div>
+
+      <div className="space-y-3 relative z-10">
+        {deltas.map((delta, index) => (
+          <div
+            key={delta.id}
+            className={`bg-white border-2 border-amber-200 rounded-lg p-4 relative shadow-md transform ${index % 2 === 0 ? 'rotate-1' : '-rotate-1'}`}
+          >
+            {/* Tape corners */}
+            <div className="absolute -top-1 -right-1 w-4 h-2 bg-white bg-opacity-90 border border-amber-300 transform rotate-12 z-10" />
+            <div className="absolute -bottom-1 -left-1 w-3 h-2 bg-white bg-opacity-90 border border-amber-300 transform -rotate-12 z-10" />
+
+            <div className="flex items-start gap-3">
+              <span className="text-2xl">{delta.emoji}</span>
+              <div>
+                <p className="font-semibold text-amber-900">{delta.headline}</p>
+                {delta.detail && <p className="text-xs text-amber-700 mt-1">{delta.detail}</p>}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function StyleShiftScreen({onNext}: ComparisonScreenProps) {
+  return <ComparisonScreen category="style" onNext={onNext} />
+}
+
+export function ShoppingShiftScreen({onNext}: ComparisonScreenProps) {
+  return <ComparisonScreen category="shopping" onNext={onNext} />
+}
+
+// Only worth a screen once an earlier session has recapped the period before this one
+const hasPreviousPeriod = ({period, periodHistory}: ScreenEligibilityData) =>
+  !!findPreviousSummary(periodHistory, period)
+
+registerScreen({
+  type: 'styleShift',
+  component: StyleShiftScreen,
+  dataRequirements: ['savedProducts', 'periodHistory'],
+  shareable: true,
+  shareText: 'My style glow-up, year over year 🔁✨',
+  progress: 'timed',
+  durationMs: 8000,
+  isEligible: hasPreviousPeriod,
+})
+
+registerScreen({
+  type: 'shoppingShift',
+  component: ShoppingShiftScreen,
+  dataRequirements: ['savedProducts', 'orders', 'periodHistory'],
+  shareable: true,
+  shareText: 'How my shopping changed this year 📈💚',
+  progress: 'timed',
+  durationMs: 8000,
+  isEligible: hasPreviousPeriod,
+})
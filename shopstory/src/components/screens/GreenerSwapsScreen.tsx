@@ -0,0 +1,127 @@
+import {usePreloadedSavedProducts} from '../../contexts/DataContext'
+import {useStoryHold} from '../../contexts/StoryPlaybackContext'
+import {useScreenAnalysis} from '../../hooks/useScreenAnalysis'
+import {carbonFootprintAnalysis} from './CarbonFootprint'
+import {registerScreen} from './registry'
+
+type GreenerSwapsScreenProps = {
+  onNext: () => void
+  onPrevious: () => void
+}
+
+/**
+ * Follow-up to the carbon footprint screen, meant to be branched to when emissions come out high.
+ * Reuses the carbon footprint analysis from the shared store and turns its recommendations
+ * into swap suggestions, alongside the product that's already doing best.
+ */
+export function GreenerSwapsScreen({onNext}: GreenerSwapsScreenProps) {
+  const {products, loading: productsLoading} = usePreloadedSavedProducts({first: carbonFootprintAnalysis.productLimit})
+  const {data: analysis, isAnalyzing} = useScreenAnalysis(carbonFootprintAnalysis, productsLoading ? null : products)
+
+  // Only waits if the screen was reached without its branch being checked, e.g. via a deep link
+  useStoryHold(productsLoading || isAnalyzing)
+
+  // Base scrapbook background style
+  const scrapbookStyle = {
+    background: `
+      radial-gradient(circle at 20% 30%, rgba(139, 69, 19, 0.03) 1px, transparent 1px),
+      radial-gradient(circle at 80% 70%, rgba(139, 69, 19, 0.02) 1px, transparent 1px),
+      radial-gradient(circle at 40% 80%, rgba(139, 69, 19, 0.02) 1px, transparent 1px),
+      linear-gradient(90deg, rgba(139, 69, 19, 0.01) 50%, transparent 50%),
+      linear-gradient(180deg, rgba(139, 69, 19, 0.01) 50%, transparent 50%),
+      linear-gradient(135deg,
+        #faf5f0 0%,
+        #f7f1ea 25%,
+        #f5ede4 50%,
+        #f3e9de 75%,
+        #f1e5d8 100%
+      )
+    `,
+    backgroundSize: '40px 40px, 60px 60px, 30px 30px, 8px 8px, 12px 12px, 100% 100%',
+    boxShadow: 'inset 0 0 120px rgba(139, 69, 19, 0.1), inset 0 0 40px rgba(139, 69, 19, 0.05)',
+  }
+
+  if (!analysis) {
+    return (
+      <div
+        className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 p-4 relative overflow-hidden"
+        style={scrapbookStyle}
+      >
+        {/* Decorative tape pieces */}
+        <div className="absolute top-5 left-5 w-10 h-4 bg-white bg-opacity-80 border border-amber-200 shadow-sm transform -rotate-12 z-20" style={{ borderRadius: '1px' }} />
+
+        <div className="text-center z-10">
+          <div className={`text-3xl mb-4 ${isAnalyzing || productsLoading ? 'animate-spin' : ''}`}>♻️</div>
+          <p className="text-lg font-semibold text-amber-900">
+            {isAnalyzing || productsLoading ? 'Finding your greener swaps...' : 'No swaps to suggest right now'}
+          </p>
+          {!isAnalyzing && !productsLoading && (
+            <button
+              onClick={onNext}
+              className="mt-4 bg-amber-700 hover:bg-amber-800 text-white font-medium py-2 px-6 rounded-lg transition-colors border border-amber-600"
+            >
+              Continue
+            </button>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  const bestProduct = analysis.lowestEmissionProducts[0]
+
+  return (
+    <div
+      className="w-full h-full rounded-lg p-4 overflow-y-auto relative"
+      style={scrapbookStyle}
+    >
+      {/* Decorative tape pieces */}
+      <div className="absolute top-2 left-3 w-8 h-3 bg-white bg-opacity-90 border border-amber-300 shadow-sm transform -rotate-12 z-20" style={{ borderRadius: '1px' }} />
+      <div className="absolute top-2 right-3 w-7 h-3 bg-white bg-opacity-90 border border-amber-300 shadow-sm transform rotate-12 z-20" style={{ borderRadius: '1px' }} />
+
+      <div className="text-center mb-6 relative z-10">
+        <h2 className="text-xl font-bold text-amber-900">♻️ Time for Some Greener Swaps</h2>
+        <p className="text-sm text-amber-800 mt-2">
+          Your saves average {analysis.averageEmissionsPerProduct.toFixed(2)} kg CO₂ each. Here's how to bring that down.
+        </p>
+      </div>
+
+      <div className="space-y-3 mb-4 relative z-10">
+        {analysis.recommendations.map((recommendation, index) => (
+          <div
+            key={index}
+            className={`bg-white border-2 border-green-200 rounded-lg p-4 relative shadow-md transform ${index % 2 === 0 ? 'rotate-1' : '-rotate-1'}`}
+          >
+            {/* Tape corners */}
+            <div className="absolute -top-1 -right-1 w-4 h-2 bg-white bg-opacity-90 border border-amber-300 transform rotate-12 z-10" />
+            <div className="absolute -bottom-1 -left-1 w-3 h-2 bg-white bg-opacity-90 border border-amber-300 transform -rotate-12 z-10" />
+
+            <p className="text-sm text-amber-800">
+              <span className="font-semibold text-green-800">Swap #{index + 1}: </span>
+              {recommendation}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {bestProduct && (
+        <div className="bg-green-50 border-2 border-green-300 rounded-lg p-4 relative shadow-md z-10">
+          <h3 className="font-semibold text-green-800 mb-1">🏆 Already Nailing It</h3>
+          <p className="text-sm text-green-900">
+            {bestProduct.productTitle} comes in at just {bestProduct.estimatedEmissionsKgCO2.toFixed(2)} kg CO₂. More of that energy, please.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+registerScreen({
+  type: 'greenerSwaps',
+  component: GreenerSwapsScreen,
+  dataRequirements: ['savedProducts'],
+  shareable: true,
+  shareText: 'Swapping my way to a smaller carbon footprint ♻️🌱',
+  progress: 'timed',
+  durationMs: 8000,
+})
@@ -1,22 +1,52 @@
 import {useState, useEffect} from 'react'
-import {geminiService} from '../../services/gemini'
+import {ColorPalette, geminiService} from '../../services/gemini'
+import {ScreenAnalysis} from '../../services/analysisScheduler'
 import {usePreloadedSavedProducts} from '../../contexts/DataContext'
+import {useStoryHold} from '../../contexts/StoryPlaybackContext'
+import {useScreenAnalysis} from '../../hooks/useScreenAnalysis'
+import {AnalysisFallbackNote, describeAnalysisProblem} from '../AnalysisFallbackNote'
+import {registerScreen} from './registry'
 
 type PaletteScreenProps = {
   onNext: () => void
   onPrevious: () => void
 }
 
-interface ColorPalette {
-  colors: Array<{
-    hex: string
-    name: string
-    percentage: number
-    description: string
-  }>
-  overallDescription: string
-  mood: string
-  style: string
+// Most product photos sent to Gemini in one palette analysis
+const MAX_PALETTE_IMAGES = 20
+
+// Pick up to `count` items spread evenly across the list, so older saves count as much as recent ones
+const sampleAcross = <T,>(items: T[], count: number): T[] =>
+  items.length <= count
+    ? items
+    : Array.from({length: count}, (_, index) => items[Math.floor((index * items.length) / count)])
+
+// Reads the whole saved history; the photos are sampled from across it
+const paletteAnalysis: ScreenAnalysis<ColorPalette> = {
+  type: 'palette',
+  source: 'savedProducts',
+  failureMessage: 'Failed to analyze color palette',
+  analyze: async (products, period, signal) => {
+    // Prepare product data for analysis
+    const productsWithImages = products.filter(product => product.featuredImage?.url)
+    const productsData = sampleAcross(productsWithImages, MAX_PALETTE_IMAGES) // Limit to prevent API overload
+      .map(product => ({
+        id: product.id,
+        title: product.title,
+        imageUrl: product.featuredImage!.url,
+        description: product.description,
+        vendor: product.vendor,
+        productType: product.productType,
+      }))
+
+    if (productsData.length === 0) {
+      return {success: false, error: 'No products with images found to analyze'}
+    }
+
+    console.log('Starting color analysis for', productsData.length, 'products')
+    console.log('Sample products:', productsData.slice(0, 3).map(p => ({title: p.title, vendor: p.vendor})))
+    return geminiService.analyzeColorPalette(productsData, period, signal)
+  },
 }
 
 /**
@@ -24,33 +54,15 @@ interface ColorPalette {
  * and displays a beautiful scrapbook visualization of the user's color preferences
  * with actual color swatches and polaroid-style presentation.
  */
-export function PaletteScreen({onNext, onPrevious}: PaletteScreenProps) {
-  const handleClick = (e: React.MouseEvent) => {
-    const rect = e.currentTarget.getBoundingClientRect()
-    const clickX = e.clientX - rect.left
-    const screenWidth = rect.width
-    
-    // If clicked on left half, go back; if clicked on right half, go forward
-    if (clickX < screenWidth / 2) {
-      onPrevious()
-    } else {
-      onNext()
-    }
-  }
-  const {products, loading: productsLoading, error: productsError} = usePreloadedSavedProducts({first: 10})
+export function PaletteScreen({onNext}: PaletteScreenProps) {
+  const {products, loading: productsLoading, error: productsError} = usePreloadedSavedProducts()
 
-  const [colorAnalysis, setColorAnalysis] = useState<ColorPalette | null>(null)
-  const [isAnalyzing, setIsAnalyzing] = useState(false)
-  const [analysisError, setAnalysisError] = useState<string | null>(null)
-  const [hasStartedAnalysis, setHasStartedAnalysis] = useState(false)
-  const [showResults, setShowResults] = useState(false)
+  const {data: colorAnalysis, error: analysisError, errorKind, isAnalyzing} = useScreenAnalysis(paletteAnalysis, productsLoading ? null : products)
+  // Skip the reveal delay when the palette was mixed before the screen opened
+  const [showResults, setShowResults] = useState(!!colorAnalysis)
 
-  // Automatically start analysis when products are loaded
-  useEffect(() => {
-    if (products && products.length > 0 && !hasStartedAnalysis && !isAnalyzing && !colorAnalysis) {
-      startColorAnalysis()
-    }
-  }, [products, hasStartedAnalysis, isAnalyzing, colorAnalysis])
+  // Don't auto-advance while the palette is still being mixed
+  useStoryHold(productsLoading || isAnalyzing || (!!colorAnalysis && !showResults))
 
   // Add delay before showing results
   useEffect(() => {
@@ -64,59 +76,6 @@ export function PaletteScreen({onNext, onPrevious}: PaletteScreenProps) {
     return undefined
   }, [colorAnalysis, showResults])
 
-  const startColorAnalysis = async (): Promise<void> => {
-    if (!products || products.length === 0) {
-      setAnalysisError('No saved products found to analyze')
-      return
-    }
-
-    setIsAnalyzing(true)
-    setAnalysisError(null)
-    setHasStartedAnalysis(true)
-
-    try {
-      // Prepare product data for analysis
-      const productsData = products
-        .filter(product => product.featuredImage?.url) // Only include products with images
-        .slice(0, 20) // Limit to prevent API overload
-        .map(product => ({
-          id: product.id,
-          title: product.title,
-          imageUrl: product.featuredImage!.url,
-          description: (product as any).description || '',
-          vendor: (product as any).vendor || '',
-          productType: (product as any).productType || '',
-        }))
-
-      if (productsData.length === 0) {
-        setAnalysisError('No products with images found to analyze')
-        setIsAnalyzing(false)
-        return
-      }
-
-      console.log('Starting color analysis for', productsData.length, 'products')
-      console.log('Sample products:', productsData.slice(0, 3).map(p => ({title: p.title, vendor: p.vendor})))
-      
-      const result = await geminiService.analyzeColorPalette(productsData)
-
-      console.log('Analysis result:', result)
-      
-      if (result.success && result.data) {
-        console.log('Color analysis successful - Colors:', result.data.colors?.map((c: any) => c.name))
-        console.log('Style:', result.data.style, 'Mood:', result.data.mood)
-        setColorAnalysis(result.data)
-      } else {
-        console.error('Color analysis failed:', result.error)
-        setAnalysisError(result.error || 'Failed to analyze color palette')
-      }
-    } catch (error) {
-      console.error('Color analysis error:', error)
-      setAnalysisError('An unexpected error occurred during analysis')
-    } finally {
-      setIsAnalyzing(false)
-    }
-  }
-
   // Base scrapbook background style
   const scrapbookStyle = {
     background: `
@@ -142,7 +101,6 @@ export function PaletteScreen({onNext, onPrevious}: PaletteScreenProps) {
     return (
       <div 
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer relative" 
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -166,7 +124,6 @@ export function PaletteScreen({onNext, onPrevious}: PaletteScreenProps) {
     return (
       <div
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -191,7 +148,6 @@ export function PaletteScreen({onNext, onPrevious}: PaletteScreenProps) {
     return (
       <div
         className="w-full h-full rounded-lg p-8 flex flex-col items-center justify-center cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -224,7 +180,6 @@ export function PaletteScreen({onNext, onPrevious}: PaletteScreenProps) {
     return (
       <div 
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer overflow-hidden relative" 
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -244,10 +199,7 @@ export function PaletteScreen({onNext, onPrevious}: PaletteScreenProps) {
           </h3>
           <p className="text-amber-800 mb-8 text-lg">Decoding your aesthetic DNA...</p>
           <button 
-            onClick={(e) => {
-              e.stopPropagation()
-              onNext()
-            }}
+            onClick={onNext}
             className="bg-white/90 backdrop-blur-md border-2 border-amber-300 text-amber-800 px-8 py-3 rounded-lg hover:bg-white transition-all duration-300 font-semibold shadow-md hover:shadow-lg transform hover:scale-105"
           >
             Skip Analysis
@@ -262,7 +214,6 @@ export function PaletteScreen({onNext, onPrevious}: PaletteScreenProps) {
     return (
       <div
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -276,12 +227,9 @@ export function PaletteScreen({onNext, onPrevious}: PaletteScreenProps) {
             </svg>
           </div>
           <h3 className="text-2xl font-bold mb-2 text-amber-900">Color Reader Broke</h3>
-          <p className="text-amber-800 text-lg mb-4">The palette detector failed: {analysisError}</p>
+          <p className="text-amber-800 text-lg mb-4">The palette detector failed: {describeAnalysisProblem(errorKind) ?? analysisError}</p>
           <button
-            onClick={(e) => {
-              e.stopPropagation()
-              onNext()
-            }}
+            onClick={onNext}
             className="bg-white/90 backdrop-blur-md border-2 border-amber-300 text-amber-800 px-6 py-3 rounded-lg hover:bg-white transition-all duration-300 font-semibold shadow-md"
           >
             Continue
@@ -296,7 +244,6 @@ export function PaletteScreen({onNext, onPrevious}: PaletteScreenProps) {
     return (
       <div
         className="w-full h-full rounded-lg p-4 overflow-y-auto cursor-pointer relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -382,6 +329,8 @@ export function PaletteScreen({onNext, onPrevious}: PaletteScreenProps) {
             ))}
           </div>
         </div>
+
+        <AnalysisFallbackNote errorKind={errorKind} />
       </div>
     )
   }
@@ -390,7 +339,6 @@ export function PaletteScreen({onNext, onPrevious}: PaletteScreenProps) {
   return (
     <div 
       className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer relative" 
-      onClick={handleClick}
       style={scrapbookStyle}
     >
       {/* Decorative tape pieces */}
@@ -407,4 +355,17 @@ export function PaletteScreen({onNext, onPrevious}: PaletteScreenProps) {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+registerScreen({
+  type: 'palette',
+  component: PaletteScreen,
+  dataRequirements: ['savedProducts'],
+  shareable: true,
+  shareText: 'Look at my shopping color palette! 🎨🌈',
+  progress: 'timed',
+  durationMs: 10000,
+  analysis: paletteAnalysis,
+  // The palette is read from product photos
+  isEligible: ({savedProducts}) => savedProducts.some(product => product.featuredImage?.url),
+})
@@ -1,4 +1,7 @@
-import {usePopularProducts, ProductCard} from '@shopify/shop-minis-react'
+import {ProductCard} from '@shopify/shop-minis-react'
+import {usePreloadedPopularProducts} from '../../contexts/DataContext'
+import {useStoryHold} from '../../contexts/StoryPlaybackContext'
+import {registerScreen} from './registry'
 
 type PopularProductsScreenProps = {
   onNext: () => void
@@ -9,20 +12,11 @@ type PopularProductsScreenProps = {
  * A screen component that fetches and displays popular products in a grid.
  * It handles its own loading and error states.
  */
-export function PopularProductsScreen({onNext, onPrevious}: PopularProductsScreenProps) {
-  const handleClick = (e: React.MouseEvent) => {
-    const rect = e.currentTarget.getBoundingClientRect()
-    const clickX = e.clientX - rect.left
-    const screenWidth = rect.width
-    
-    // If clicked on left half, go back; if clicked on right half, go forward
-    if (clickX < screenWidth / 2) {
-      onPrevious()
-    } else {
-      onNext()
-    }
-  }
-  const {products, loading, error} = usePopularProducts({first: 6})
+export function PopularProductsScreen({onNext}: PopularProductsScreenProps) {
+  const {products, loading, error} = usePreloadedPopularProducts({first: 6})
+
+  // Wait for trending products before the timer starts
+  useStoryHold(loading)
 
   if (loading) {
     return (
@@ -36,7 +30,6 @@ export function PopularProductsScreen({onNext, onPrevious}: PopularProductsScree
     return (
       <div
         className="w-full h-full bg-red-900 rounded-lg flex items-center justify-center text-white cursor-pointer"
-        onClick={handleClick}
       >
         <p>That's not very popular of us. Tap to continue.</p>
       </div>
@@ -46,26 +39,34 @@ export function PopularProductsScreen({onNext, onPrevious}: PopularProductsScree
   return (
     <div
       className="w-full h-full bg-white rounded-lg p-4 overflow-y-auto cursor-pointer"
-      onClick={handleClick}
     >
       <h2 className="text-xl font-bold mb-4 text-center">What's Trending</h2>
       <div 
         className="grid grid-cols-2 gap-4"
-        onClick={e => e.stopPropagation()}
+        data-story-gestures="none" // Product cards handle their own taps
       >
         {products.map(product => (
-          <ProductCard key={product.id} product={product} />
+          <ProductCard key={product.id} product={product.source} />
         ))}
       </div>
       <button
-        onClick={(e) => {
-          e.stopPropagation()
-          onNext()
-        }}
+        onClick={onNext}
         className="mt-4 w-full bg-blue-500 text-white py-2 rounded-lg hover:bg-blue-600 transition-colors"
       >
         Next
       </button>
     </div>
   )
-}
\ No newline at end of file
+}
+
+registerScreen({
+  type: 'popularProducts',
+  component: PopularProductsScreen,
+  dataRequirements: ['popularProducts'],
+  shareable: true,
+  shareText: 'Check out these popular products! 🔥🛍️',
+  progress: 'timed',
+  durationMs: 8000,
+  // Fill at least one row of the grid
+  isEligible: ({popularProducts}) => popularProducts.length >= 2,
+})
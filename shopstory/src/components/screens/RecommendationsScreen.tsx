@@ -1,45 +1,56 @@
 import { useState, useEffect } from 'react'
 import { ProductCard } from '@shopify/shop-minis-react'
 import { geminiService, RecommendationsAnalysis } from '../../services/gemini'
+import { ScreenAnalysis } from '../../services/analysisScheduler'
 import { usePreloadedRecommendedProducts } from '../../contexts/DataContext'
+import { useStoryHold } from '../../contexts/StoryPlaybackContext'
+import { useScreenAnalysis } from '../../hooks/useScreenAnalysis'
+import { AnalysisFallbackNote, describeAnalysisProblem } from '../AnalysisFallbackNote'
+import { registerScreen } from './registry'
 
 type RecommendationsScreenProps = {
   onNext: () => void
   onPrevious: () => void
 }
 
+const recommendationsAnalysis: ScreenAnalysis<RecommendationsAnalysis> = {
+  type: 'recommendations',
+  source: 'recommendedProducts',
+  productLimit: 12,
+  failureMessage: 'Failed to analyze recommendations',
+  analyze: (products, period, signal) => {
+    // Prepare product data for analysis
+    const productsData = products.map(product => ({
+      id: product.id,
+      title: product.title,
+      description: product.description,
+      vendor: product.vendor,
+      productType: product.productType,
+      imageUrl: product.featuredImage?.url || '',
+    }))
+
+    console.log('Starting recommendations analysis for', productsData.length, 'products')
+    return geminiService.analyzeRecommendations(productsData, period, signal)
+  },
+}
+
 /**
  * A screen component that analyzes recommended products to generate a Spotify Daylist-style
  * headline and displays product recommendations to match the user's future self.
  * Now styled with scrapbook theme to match TitleScreen.
  */
-export function RecommendationsScreen({ onNext, onPrevious }: RecommendationsScreenProps) {
-  const handleClick = (e: React.MouseEvent) => {
-    const rect = e.currentTarget.getBoundingClientRect()
-    const clickX = e.clientX - rect.left
-    const screenWidth = rect.width
-
-    // If clicked on left half, go back; if clicked on right half, go forward
-    if (clickX < screenWidth / 2) {
-      onPrevious()
-    } else {
-      onNext()
-    }
-  }
-  const { products, loading: productsLoading, error: productsError } = usePreloadedRecommendedProducts({ first: 12 })
+export function RecommendationsScreen({ onNext }: RecommendationsScreenProps) {
+  const { products, loading: productsLoading, error: productsError } = usePreloadedRecommendedProducts({ first: recommendationsAnalysis.productLimit })
 
-  const [analysis, setAnalysis] = useState<RecommendationsAnalysis | null>(null)
-  const [isAnalyzing, setIsAnalyzing] = useState(false)
-  const [analysisError, setAnalysisError] = useState<string | null>(null)
-  const [hasStartedAnalysis, setHasStartedAnalysis] = useState(false)
-  const [showResults, setShowResults] = useState(false)
+  const { data: analysis, error: analysisError, errorKind, isAnalyzing } = useScreenAnalysis(
+    recommendationsAnalysis,
+    productsLoading ? null : products
+  )
+  // Come straight back to the results when they're already in the store
+  const [showResults, setShowResults] = useState(!!analysis)
 
-  // Automatically start analysis when products are loaded
-  useEffect(() => {
-    if (products && products.length > 0 && !hasStartedAnalysis && !isAnalyzing && !analysis) {
-      startRecommendationsAnalysis()
-    }
-  }, [products, hasStartedAnalysis, isAnalyzing, analysis])
+  // Hold the story timer while the future-self reading is loading
+  useStoryHold(productsLoading || isAnalyzing || (!!analysis && !showResults))
 
   // Add delay before showing results
   useEffect(() => {
@@ -53,49 +64,6 @@ export function RecommendationsScreen({ onNext, onPrevious }: RecommendationsScr
     return undefined
   }, [analysis, showResults])
 
-  const startRecommendationsAnalysis = async (): Promise<void> => {
-    if (!products || products.length === 0) {
-      setAnalysisError('No recommended products found to analyze')
-      return
-    }
-
-    setIsAnalyzing(true)
-    setAnalysisError(null)
-    setHasStartedAnalysis(true)
-
-    try {
-      // Prepare product data for analysis
-      const productsData = products.map(product => ({
-        id: product.id,
-        title: product.title,
-        description: (product as any).description || '',
-        vendor: (product as any).vendor || '',
-        productType: (product as any).productType || '',
-        imageUrl: product.featuredImage?.url || '',
-      }))
-
-      console.log('Starting recommendations analysis for', productsData.length, 'products')
-
-      const result = await geminiService.analyzeRecommendations(productsData)
-
-      console.log('Recommendations analysis result:', result)
-
-      if (result.success && result.data) {
-        console.log('Analysis successful - Headline:', result.data.headline)
-        console.log('Future self description:', result.data.futureSelfdescription)
-        setAnalysis(result.data)
-      } else {
-        console.error('Recommendations analysis failed:', result.error)
-        setAnalysisError(result.error || 'Failed to analyze recommendations')
-      }
-    } catch (error) {
-      console.error('Recommendations analysis error:', error)
-      setAnalysisError('An unexpected error occurred during analysis')
-    } finally {
-      setIsAnalyzing(false)
-    }
-  }
-
   const handleFavoriteToggled = (isFavorited: boolean) => {
     console.log('Favorite toggled:', isFavorited)
   }
@@ -125,7 +93,6 @@ export function RecommendationsScreen({ onNext, onPrevious }: RecommendationsScr
     return (
       <div
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -149,7 +116,6 @@ export function RecommendationsScreen({ onNext, onPrevious }: RecommendationsScr
     return (
       <div
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -174,7 +140,6 @@ export function RecommendationsScreen({ onNext, onPrevious }: RecommendationsScr
     return (
       <div
         className="w-full h-full rounded-lg p-8 flex flex-col items-center justify-center cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -207,7 +172,6 @@ export function RecommendationsScreen({ onNext, onPrevious }: RecommendationsScr
     return (
       <div
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -221,12 +185,9 @@ export function RecommendationsScreen({ onNext, onPrevious }: RecommendationsScr
             </svg>
           </div>
           <h3 className="text-2xl font-bold mb-2 text-amber-900">That's Not It, Chief</h3>
-          <p className="text-amber-800 text-lg mb-4">The vibe check failed: {analysisError}</p>
+          <p className="text-amber-800 text-lg mb-4">The vibe check failed: {describeAnalysisProblem(errorKind) ?? analysisError}</p>
           <button
-            onClick={(e) => {
-              e.stopPropagation()
-              onNext()
-            }}
+            onClick={onNext}
             className="bg-white/90 backdrop-blur-md border-2 border-amber-300 text-amber-800 px-6 py-3 rounded-lg hover:bg-white transition-all duration-300 font-semibold shadow-md"
           >
             Keep It Moving
@@ -241,7 +202,6 @@ export function RecommendationsScreen({ onNext, onPrevious }: RecommendationsScr
     return (
       <div
         className="w-full h-full rounded-lg p-4 overflow-y-auto cursor-pointer relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -294,7 +254,7 @@ export function RecommendationsScreen({ onNext, onPrevious }: RecommendationsScr
           <h3 className="text-lg font-semibold mb-4 text-center text-amber-900">Your Next Obsessions</h3>
           <div
             className="grid grid-cols-2 gap-4"
-            onClick={e => e.stopPropagation()}
+            data-story-gestures="none" // Product cards handle their own taps
           >
             {products.slice(0, 8).map((product, index) => {
               const rotations = ['rotate-1', '-rotate-1', 'rotate-2', '-rotate-2']
@@ -308,7 +268,7 @@ export function RecommendationsScreen({ onNext, onPrevious }: RecommendationsScr
 
                   <div className="transform scale-90 origin-center">
                     <ProductCard
-                      product={product}
+                      product={product.source}
                       onFavoriteToggled={handleFavoriteToggled}
                     />
                   </div>
@@ -330,6 +290,7 @@ export function RecommendationsScreen({ onNext, onPrevious }: RecommendationsScr
           )}
         </div>
 
+        <AnalysisFallbackNote errorKind={errorKind} />
       </div>
     )
   }
@@ -338,7 +299,6 @@ export function RecommendationsScreen({ onNext, onPrevious }: RecommendationsScr
   return (
     <div
       className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer relative"
-      onClick={handleClick}
       style={scrapbookStyle}
     >
       {/* Decorative tape pieces */}
@@ -355,4 +315,16 @@ export function RecommendationsScreen({ onNext, onPrevious }: RecommendationsScr
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+registerScreen({
+  type: 'recommendations',
+  component: RecommendationsScreen,
+  dataRequirements: ['recommendedProducts'],
+  shareable: true,
+  shareText: 'Got some amazing shopping recommendations! 💫🛒',
+  progress: 'timed',
+  durationMs: 10000,
+  analysis: recommendationsAnalysis,
+  isEligible: ({ recommendedProducts }) => recommendedProducts.length >= 3,
+})
@@ -1,16 +1,8 @@
 import { useState } from 'react'
 import { useShare } from '@shopify/shop-minis-react'
 import { Screen } from '../StoryView'
-import { ColorScreen } from './ColorScreen'
-import { PopularProductsScreen } from './PopularProductsScreen'
-import { TitleScreen } from './TitleScreen'
-import { CarbonFootprintScreen } from './CarbonFootprint'
-import { TopBrandsScreen } from './TopBrandsScreen'
-import { PaletteScreen } from './Palette'
-import { SmallBusinessScreen } from './SmallBusiness'
-import { ShippingTimeScreen } from './ShippingTime'
-import { AestheticsScreen } from './AestheticsScreen'
-import { RecommendationsScreen } from './RecommendationsScreen'
+import { registerScreen, getScreenRegistration, getShareText, isShareableScreen } from './registry'
+import { buildStoryLink } from '../../stories/storyLinks'
 
 type ShareScreenProps = {
   onNext: () => void
@@ -18,29 +10,15 @@ type ShareScreenProps = {
   allScreens?: Screen[]
 }
 
-export function ShareScreen({ onNext, onPrevious, allScreens = [] }: ShareScreenProps) {
+export function ShareScreen({ allScreens = [] }: ShareScreenProps) {
   const { share } = useShare()
 
-  const handleClick = (e: React.MouseEvent) => {
-    const rect = e.currentTarget.getBoundingClientRect()
-    const clickX = e.clientX - rect.left
-    const screenWidth = rect.width
-
-    // If clicked on left half, go back; if clicked on right half, go forward
-    if (clickX < screenWidth / 2) {
-      onPrevious()
-    } else {
-      onNext()
-    }
-  }
   const [selectedScreenIndex, setSelectedScreenIndex] = useState(0)
   const [touchStart, setTouchStart] = useState<number | null>(null)
   const [touchEnd, setTouchEnd] = useState<number | null>(null)
 
-  // Only allow shareable types
-  const shareableScreens = allScreens.filter(
-    (screen) => screen.type !== 'share' && screen.type !== 'color'
-  )
+  // Only allow types registered as shareable
+  const shareableScreens = allScreens.filter(isShareableScreen)
 
   const handleScreenSelect = (index: number) => {
     setSelectedScreenIndex(index)
@@ -53,7 +31,8 @@ export function ShareScreen({ onNext, onPrevious, allScreens = [] }: ShareScreen
     try {
       await share({
         title: `My Shop Story - ${shareText}`,
-        url: window.location.href,
+        // Deep link straight to the screen being shared
+        url: buildStoryLink({ screenId: selectedScreen.id ?? selectedScreen.type }),
       })
     } catch (error) {
       console.error('Share failed:', error)
@@ -85,51 +64,18 @@ export function ShareScreen({ onNext, onPrevious, allScreens = [] }: ShareScreen
     }
   }
 
-  const getShareText = (screen: Screen): string => {
-    const texts: Record<string, string> = {
-      aesthetics: 'Check out my shopping aesthetic analysis! 🛍️✨',
-      carbonFootprint: 'Just discovered my shopping carbon footprint! 🌱♻️',
-      topBrands: 'My top shopping brands revealed! 🏆👜',
-      palette: 'Look at my shopping color palette! 🎨🌈',
-      smallBusiness: 'Supporting small businesses in my shopping! 🏪❤️',
-      shippingTime: 'My shipping analytics are in! 📦⚡',
-      recommendations: 'Got some amazing shopping recommendations! 💫🛒',
-      popularProducts: 'Check out these popular products! 🔥🛍️',
-      title: 'Check out my shopping story! 🛍️',
-    }
-    return texts[screen.type] || 'Check out my shopping story! 🛍️'
-  }
-
   const renderActualScreen = (screen: Screen) => {
     const dummyOnNext = () => {}
-    switch (screen.type) {
-      case 'title':
-        return <TitleScreen onNext={dummyOnNext} onPrevious={dummyOnNext} screen={screen} />
-      case 'color':
-        return <ColorScreen onNext={dummyOnNext} onPrevious={dummyOnNext} screen={screen} />
-      case 'popularProducts':
-        return <PopularProductsScreen onNext={dummyOnNext} onPrevious={dummyOnNext} />
-      case 'carbonFootprint':
-        return <CarbonFootprintScreen onNext={dummyOnNext} onPrevious={dummyOnNext} />
-      case 'topBrands':
-        return <TopBrandsScreen onNext={dummyOnNext} onPrevious={dummyOnNext} />
-      case 'palette':
-        return <PaletteScreen onNext={dummyOnNext} onPrevious={dummyOnNext} />
-      case 'smallBusiness':
-        return <SmallBusinessScreen onNext={dummyOnNext} onPrevious={dummyOnNext} />
-      case 'shippingTime':
-        return <ShippingTimeScreen onNext={dummyOnNext} onPrevious={dummyOnNext} />
-      case 'aesthetics':
-        return <AestheticsScreen onNext={dummyOnNext} onPrevious={dummyOnNext} />
-      case 'recommendations':
-        return <RecommendationsScreen onNext={dummyOnNext} onPrevious={dummyOnNext} />
-      default:
-        return (
-          <div className="w-full h-full bg-gray-700 flex items-center justify-center text-white rounded-lg">
-            Unknown screen type
-          </div>
-        )
+    const registration = getScreenRegistration(screen.type)
+    if (!registration) {
+      return (
+        <div className="w-full h-full bg-gray-700 flex items-center justify-center text-white rounded-lg">
+          Unknown screen type
+        </div>
+      )
     }
+    const ScreenComponent = registration.component
+    return <ScreenComponent onNext={dummyOnNext} onPrevious={dummyOnNext} screen={screen} />
   }
 
   if (shareableScreens.length === 0) {
@@ -168,7 +114,7 @@ export function ShareScreen({ onNext, onPrevious, allScreens = [] }: ShareScreen
         onTouchStart={onTouchStart}
         onTouchMove={onTouchMove}
         onTouchEnd={onTouchEnd}
-        onClick={handleClick}
+        data-story-gestures="no-swipe" // Swipes here flip through the preview, not the story
       >
         {renderActualScreen(shareableScreens[selectedScreenIndex])}
 
@@ -188,10 +134,7 @@ export function ShareScreen({ onNext, onPrevious, allScreens = [] }: ShareScreen
         {/* Navigation arrows */}
         {selectedScreenIndex > 0 && (
           <button
-            onClick={(e) => {
-              e.stopPropagation()
-              handleScreenSelect(selectedScreenIndex - 1)
-            }}
+            onClick={() => handleScreenSelect(selectedScreenIndex - 1)}
             className="absolute left-4 top-1/2 -translate-y-1/2 w-12 h-12 bg-black/70 hover:bg-black/90 rounded-full flex items-center justify-center text-white text-xl font-bold transition-all duration-200 hover:scale-110 z-10"
           >
             ‹
@@ -199,10 +142,7 @@ export function ShareScreen({ onNext, onPrevious, allScreens = [] }: ShareScreen
         )}
         {selectedScreenIndex < shareableScreens.length - 1 && (
           <button
-            onClick={(e) => {
-              e.stopPropagation()
-              handleScreenSelect(selectedScreenIndex + 1)
-            }}
+            onClick={() => handleScreenSelect(selectedScreenIndex + 1)}
             className="absolute right-4 top-1/2 -translate-y-1/2 w-12 h-12 bg-black/70 hover:bg-black/90 rounded-full flex items-center justify-center text-white text-xl font-bold transition-all duration-200 hover:scale-110 z-10"
           >
             ›
@@ -212,3 +152,11 @@ export function ShareScreen({ onNext, onPrevious, allScreens = [] }: ShareScreen
     </div>
   )
 }
+
+registerScreen({
+  type: 'share',
+  component: ShareScreen,
+  dataRequirements: [],
+  shareable: false,
+  progress: 'static',
+})
@@ -1,82 +1,40 @@
-import {useState, useEffect} from 'react'
+import {useMemo} from 'react'
+import {usePreloadedOrders} from '../../contexts/DataContext'
+import {useStoryHold} from '../../contexts/StoryPlaybackContext'
+import {countOrderItems, getBiggestOrder, StoryOrder, summarizeOrdersByShop} from '../../services/orders'
+import {normalizeProduct, StoryImage} from '../../services/products'
+import {registerScreen} from './registry'
 
 type ShippingTimeScreenProps = {
   onNext: () => void
   onPrevious: () => void
 }
 
-interface ShippingData {
-  totalCumulativeWaitTime: number
-  monthlyAverage: number
-  longestShippingProduct: {
-    name: string
-    days: number
-    imageUrl: string
-    price: string
-  }
-  shortestShippingProduct: {
-    name: string
-    days: number
-    imageUrl: string
-    price: string
-  }
-  monthlyStats: {
-    totalOrders: number
-    averageDays: number
-    onTimeDeliveries: number
-  }
-}
+// Keeps the shop list to what fits on one card
+const MAX_SHOPS_SHOWN = 5
 
-// Mock shipping data
-const mockShippingData: ShippingData = {
-  totalCumulativeWaitTime: 847, // Total days waited this month
-  monthlyAverage: 7.2,
-  longestShippingProduct: {
-    name: "Organic Cotton Throw Blanket",
-    days: 21,
-    imageUrl: "https://images.unsplash.com/photo-1586023492125-27b2c045efd7?w=300&h=300&fit=crop",
-    price: "$89.99"
-  },
-  shortestShippingProduct: {
-    name: "Bamboo Phone Case",
-    days: 2,
-    imageUrl: "https://images.unsplash.com/photo-1574739782594-db4ead022697?w=300&h=300&fit=crop",
-    price: "$24.99"
-  },
-  monthlyStats: {
-    totalOrders: 118,
-    averageDays: 7.2,
-    onTimeDeliveries: 89
+// The first of the order's products with an image, for its polaroid
+function getOrderPhoto(order: StoryOrder): {title: string; image?: StoryImage} {
+  for (const item of order.lineItems) {
+    const image = item.product && normalizeProduct(item.product).featuredImage
+    if (image) {
+      return {title: item.title, image}
+    }
   }
+  return {title: order.lineItems[0]?.title ?? order.name}
 }
 
 /**
- * A screen component that displays comprehensive shipping time analytics
- * including cumulative wait times, fastest/slowest deliveries with product cards,
- * and monthly shipping statistics. Now styled with scrapbook theme.
+ * A screen component that recaps the user's orders: how many, from which shops, and their
+ * biggest haul. The SDK's orders don't say when anything shipped or arrived, so delivery
+ * times are left as a "no delivery data yet" note rather than guessed. Styled with scrapbook theme.
  */
-export function ShippingTimeScreen({onNext, onPrevious}: ShippingTimeScreenProps) {
-  const [shippingData, setShippingData] = useState<ShippingData | null>(null)
-  const [loading, setLoading] = useState(true)
-
-  useEffect(() => {
-    // Load data immediately
-    setShippingData(mockShippingData)
-    setLoading(false)
-  }, [])
+export function ShippingTimeScreen(_props: ShippingTimeScreenProps) {
+  const {orders, loading} = usePreloadedOrders()
+  const shops = useMemo(() => summarizeOrdersByShop(orders ?? []), [orders])
+  const biggestOrder = useMemo(() => getBiggestOrder(orders ?? []), [orders])
 
-  const handleClick = (e: React.MouseEvent) => {
-    const rect = e.currentTarget.getBoundingClientRect()
-    const clickX = e.clientX - rect.left
-    const screenWidth = rect.width
-    
-    // If clicked on left half, go back; if clicked on right half, go forward
-    if (clickX < screenWidth / 2) {
-      onPrevious()
-    } else {
-      onNext()
-    }
-  }
+  useStoryHold(loading)
 
   // Base scrapbook background style
   const scrapbookStyle = {
@@ -102,7 +60,6 @@ export function ShippingTimeScreen({onNext, onPrevious}: ShippingTimeScreenProps
     return (
       <div 
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -114,18 +71,17 @@ export function ShippingTimeScreen({onNext, onPrevious}: ShippingTimeScreenProps
             <div className="absolute inset-0 rounded-full border-4 border-amber-800/20"></div>
             <div className="absolute inset-0 rounded-full border-4 border-transparent border-t-amber-800 animate-spin"></div>
           </div>
-          <h3 className="text-2xl font-bold mb-2 text-amber-900">Calculating Your Patience Level</h3>
-          <p className="text-amber-800 text-lg">Crunching your delivery receipts...</p>
+          <h3 className="text-2xl font-bold mb-2 text-amber-900">Unpacking Your Orders</h3>
+          <p className="text-amber-800 text-lg">Crunching your receipts...</p>
         </div>
       </div>
     )
   }
 
-  if (!shippingData) {
+  if (!orders || orders.length === 0 || !biggestOrder) {
     return (
       <div
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -134,23 +90,23 @@ export function ShippingTimeScreen({onNext, onPrevious}: ShippingTimeScreenProps
         
         <div className="text-center z-10 p-8">
           <div className="w-20 h-20 mx-auto mb-6 bg-amber-100 rounded-full flex items-center justify-center border-2 border-amber-200 shadow-sm">
-            <svg className="w-10 h-10 text-amber-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
-            </svg>
+            <span className="text-4xl">📦</span>
           </div>
-          <h3 className="text-2xl font-bold mb-2 text-amber-900">That's Not Very Cash Money</h3>
-          <p className="text-amber-800 text-lg">Tap to keep the vibe going</p>
+          <h3 className="text-2xl font-bold mb-2 text-amber-900">No Orders to Unpack Yet</h3>
+          <p className="text-amber-800 text-lg">
+            Once you've checked out with a few shops, we'll show you where your packages come from
+          </p>
         </div>
       </div>
     )
   }
 
-  const onTimePercentage = Math.round((shippingData.monthlyStats.onTimeDeliveries / shippingData.monthlyStats.totalOrders) * 100)
+  const itemCount = orders.reduce((total, order) => total + countOrderItems(order), 0)
+  const biggestHaul = {...getOrderPhoto(biggestOrder), itemCount: countOrderItems(biggestOrder)}
 
   return (
     <div
       className="w-full h-full rounded-lg p-4 overflow-y-auto cursor-pointer relative"
-      onClick={handleClick}
       style={scrapbookStyle}
     >
       {/* Decorative tape pieces */}
@@ -165,13 +121,13 @@ export function ShippingTimeScreen({onNext, onPrevious}: ShippingTimeScreenProps
               <span className="text-white text-lg">📦</span>
             </div>
             <h2 className="text-2xl font-bold text-amber-900">
-              Your Waiting Era
+              Your Package Era
             </h2>
           </div>
-          <p className="text-amber-800 text-sm">How long you've been manifesting packages</p>
+          <p className="text-amber-800 text-sm">Everything you've had sent your way</p>
         </div>
 
-        {/* Section 1: Cumulative Wait Time as scrapbook note */}
+        {/* Section 1: Order totals as scrapbook note */}
         <div className="bg-white rounded-lg p-6 border-2 border-blue-200 relative shadow-md transform -rotate-1">
           {/* Tape corners */}
           <div className="absolute -top-1 -right-1 w-4 h-2 bg-white bg-opacity-90 border border-amber-300 transform rotate-12 z-10" />
@@ -179,133 +135,128 @@ export function ShippingTimeScreen({onNext, onPrevious}: ShippingTimeScreenProps
           
           <div className="text-center">
             <div className="inline-flex items-center justify-center w-16 h-16 bg-blue-100 rounded-full mb-4 border-2 border-blue-200">
-              <span className="text-2xl">⏱️</span>
+              <span className="text-2xl">🧾</span>
             </div>
-            <h3 className="text-xl font-semibold text-amber-900 mb-2">Your Patience This Month</h3>
-            <div className="text-4xl font-bold text-blue-600 mb-2">
-              {shippingData.totalCumulativeWaitTime} days
+            <h3 className="text-xl font-semibold text-amber-900 mb-2">Your Checkout Count</h3>
+            <div className="text-4xl font-bold text-blue-600 mb-4">
+              {orders.length} order{orders.length !== 1 ? 's' : ''}
             </div>
-            <p className="text-sm text-amber-700 mb-4">
-              Average of {shippingData.monthlyAverage} days per order
-            </p>
-            <div className="grid grid-cols-3 gap-4 text-center">
-              <div className="bg-amber-50 rounded-lg p-3 border border-amber-200">
-                <div className="text-lg font-semibold text-amber-900">{shippingData.monthlyStats.totalOrders}</div>
-                <div className="text-xs text-amber-700">Total Orders</div>
-              </div>
+            <div className="grid grid-cols-2 gap-4 text-center">
               <div className="bg-amber-50 rounded-lg p-3 border border-amber-200">
-                <div className="text-lg font-semibold text-amber-900">{shippingData.monthlyStats.averageDays}</div>
-                <div className="text-xs text-amber-700">Avg Days</div>
+                <div className="text-lg font-semibold text-amber-900">{itemCount}</div>
+                <div className="text-xs text-amber-700">Items</div>
               </div>
               <div className="bg-amber-50 rounded-lg p-3 border border-amber-200">
-                <div className="text-lg font-semibold text-amber-900">{onTimePercentage}%</div>
-                <div className="text-xs text-amber-700">On Time</div>
+                <div className="text-lg font-semibold text-amber-900">{shops.length}</div>
+                <div className="text-xs text-amber-700">Shops</div>
               </div>
             </div>
           </div>
         </div>
 
-        {/* Section 2: Longest Shipping Product as polaroid */}
-        <div className="bg-white rounded-lg p-6 border-2 border-red-200 relative shadow-md transform rotate-1">
+        {/* Section 2: Biggest order as polaroid */}
+        <div className="bg-white rounded-lg p-6 border-2 border-green-200 relative shadow-md transform rotate-1">
           {/* Tape corners */}
           <div className="absolute -top-1 -right-1 w-4 h-2 bg-white bg-opacity-90 border border-amber-300 transform rotate-12 z-10" />
           <div className="absolute -bottom-1 -left-1 w-3 h-2 bg-white bg-opacity-90 border border-amber-300 transform -rotate-12 z-10" />
           
           <div className="text-center mb-4">
-            <div className="inline-flex items-center justify-center w-16 h-16 bg-red-100 rounded-full mb-4 border-2 border-red-200">
-              <span className="text-2xl">🐌</span>
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-green-100 rounded-full mb-4 border-2 border-green-200">
+              <span className="text-2xl">🛍️</span>
             </div>
-            <h3 className="text-xl font-semibold text-amber-900">Your Biggest Test of Patience</h3>
-            <p className="text-red-600 font-medium text-lg">{shippingData.longestShippingProduct.days} days</p>
+            <h3 className="text-xl font-semibold text-amber-900">Your Biggest Haul</h3>
+            <p className="text-green-600 font-medium text-lg">
+              {biggestHaul.itemCount} item{biggestHaul.itemCount !== 1 ? 's' : ''} in one go
+            </p>
           </div>
           <div className="bg-amber-50 rounded-lg p-4 border-2 border-amber-200 relative">
             {/* Polaroid-style product card */}
             <div className="flex items-center space-x-4">
-              <div className="bg-white p-1 rounded-lg border-2 border-amber-200 shadow-sm">
-                <img 
-                  src={shippingData.longestShippingProduct.imageUrl} 
-                  alt={shippingData.longestShippingProduct.name}
-                  className="w-20 h-20 object-cover rounded-md"
-                />
+              <div className="bg-white p-1 rounded-lg border-2 border-amber-200 shadow-sm relative">
+                {biggestHaul.image ? (
+                  <img
+                    src={biggestHaul.image.url}
+                    alt={biggestHaul.image.altText || biggestHaul.title}
+                    className="w-20 h-20 object-cover rounded-md"
+                  />
+                ) : (
+                  <div className="w-20 h-20 rounded-md bg-amber-100 flex items-center justify-center text-3xl">📦</div>
+                )}
                 {/* Small tape corners on product image */}
                 <div className="absolute top-0 right-0 w-3 h-1.5 bg-white bg-opacity-90 border border-amber-300 transform rotate-45" />
               </div>
               <div className="flex-1">
                 <h4 className="font-semibold text-amber-900 text-sm mb-1">
-                  {shippingData.longestShippingProduct.name}
+                  {biggestHaul.title}
                 </h4>
-                <p className="text-red-600 font-medium">{shippingData.longestShippingProduct.price}</p>
-                <div className="flex items-center mt-2">
-                  <div className="bg-red-100 text-red-800 px-2 py-1 rounded-full text-xs border border-red-200">
-                    took {shippingData.longestShippingProduct.days} days (not it)
-                  </div>
-                </div>
+                <p className="text-xs text-amber-700">
+                  Order {biggestOrder.name} from {biggestOrder.shop.name}
+                </p>
               </div>
             </div>
           </div>
         </div>
 
-        {/* Section 3: Shortest Shipping Product as polaroid */}
-        <div className="bg-white rounded-lg p-6 border-2 border-green-200 relative shadow-md transform -rotate-1">
+        {/* Section 3: Orders per shop as handwritten note */}
+        <div className="bg-white rounded-lg p-6 border-2 border-purple-200 relative shadow-md transform -rotate-1">
           {/* Tape corners */}
           <div className="absolute -top-1 -right-1 w-4 h-2 bg-white bg-opacity-90 border border-amber-300 transform rotate-12 z-10" />
           <div className="absolute -bottom-1 -left-1 w-3 h-2 bg-white bg-opacity-90 border border-amber-300 transform -rotate-12 z-10" />
-          
-          <div className="text-center mb-4">
-            <div className="inline-flex items-center justify-center w-16 h-16 bg-green-100 rounded-full mb-4 border-2 border-green-200">
-              <span className="text-2xl">⚡</span>
+
+          <div className="text-center">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-purple-100 rounded-full mb-4 border-2 border-purple-200">
+              <span className="text-2xl">📊</span>
             </div>
-            <h3 className="text-xl font-semibold text-amber-900">Your Speed Demon Delivery</h3>
-            <p className="text-green-600 font-medium text-lg">{shippingData.shortestShippingProduct.days} days</p>
-          </div>
-          <div className="bg-amber-50 rounded-lg p-4 border-2 border-amber-200 relative">
-            {/* Polaroid-style product card */}
-            <div className="flex items-center space-x-4">
-              <div className="bg-white p-1 rounded-lg border-2 border-amber-200 shadow-sm">
-                <img 
-                  src={shippingData.shortestShippingProduct.imageUrl} 
-                  alt={shippingData.shortestShippingProduct.name}
-                  className="w-20 h-20 object-cover rounded-md"
-                />
-                {/* Small tape corners on product image */}
-                <div className="absolute top-0 right-0 w-3 h-1.5 bg-white bg-opacity-90 border border-amber-300 transform rotate-45" />
-              </div>
-              <div className="flex-1">
-                <h4 className="font-semibold text-amber-900 text-sm mb-1">
-                  {shippingData.shortestShippingProduct.name}
-                </h4>
-                <p className="text-green-600 font-medium">{shippingData.shortestShippingProduct.price}</p>
-                <div className="flex items-center mt-2">
-                  <div className="bg-green-100 text-green-800 px-2 py-1 rounded-full text-xs border border-green-200">
-                    Absolutely sent it! ⚡
+            <h3 className="text-xl font-semibold text-amber-900 mb-2">Where Your Packages Come From</h3>
+            <p className="text-amber-700 text-sm mb-4">Orders and items, by shop</p>
+
+            <div className="space-y-2">
+              {shops.slice(0, MAX_SHOPS_SHOWN).map(({shop, orderCount, itemCount: shopItemCount}) => (
+                <div
+                  key={shop.id}
+                  className="flex items-center justify-between bg-amber-50 rounded-lg px-4 py-2 border border-amber-200"
+                >
+                  <div className="text-left">
+                    <div className="text-sm font-semibold text-amber-900">{shop.name}</div>
+                    <div className="text-xs text-amber-700">
+                      {shopItemCount} item{shopItemCount !== 1 ? 's' : ''}
+                    </div>
                   </div>
+                  <div className="text-lg font-bold text-purple-600">{orderCount}×</div>
                 </div>
-              </div>
+              ))}
             </div>
           </div>
         </div>
 
-        {/* Percentile Comparison as handwritten note */}
-        <div className="bg-white rounded-lg p-6 border-2 border-purple-200 relative shadow-md transform rotate-1">
+        {/* Delivery times, once there's data for them */}
+        <div className="bg-white rounded-lg p-6 border-2 border-amber-200 relative shadow-md transform rotate-1">
           {/* Tape corners */}
           <div className="absolute -top-1 -right-1 w-4 h-2 bg-white bg-opacity-90 border border-amber-300 transform rotate-12 z-10" />
-          <div className="absolute -bottom-1 -left-1 w-3 h-2 bg-white bg-opacity-90 border border-amber-300 transform -rotate-12 z-10" />
-          
+
           <div className="text-center">
-            <div className="inline-flex items-center justify-center w-16 h-16 bg-purple-100 rounded-full mb-4 border-2 border-purple-200">
-              <span className="text-2xl">📊</span>
-            </div>
-            <h3 className="text-xl font-semibold text-amber-900 mb-2">Your Patience Ranking</h3>
-            <p className="text-amber-700 text-sm mb-4">How you stack up against other shoppers</p>
-            
-            <div className="bg-amber-50 rounded-lg p-6 border-2 border-amber-200">
-              <div className="text-4xl font-bold text-purple-600 mb-2">73rd</div>
-              <div className="text-sm text-amber-700">percentile</div>
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-amber-100 rounded-full mb-4 border-2 border-amber-200">
+              <span className="text-2xl">⏱️</span>
             </div>
+            <h3 className="text-xl font-semibold text-amber-900 mb-2">No Delivery Data Yet</h3>
+            <p className="text-amber-700 text-sm">
+              We can't see when your packages shipped or landed, so your patience stats are still in transit
+            </p>
           </div>
         </div>
 
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+registerScreen({
+  type: 'shippingTime',
+  component: ShippingTimeScreen,
+  dataRequirements: ['orders'],
+  isEligible: ({orders}) => orders.length > 0,
+  shareable: true,
+  shareText: 'Where all my packages come from 📦',
+  progress: 'timed',
+  durationMs: 8000,
+})
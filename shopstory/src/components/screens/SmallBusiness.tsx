@@ -1,106 +1,71 @@
-import {useState, useEffect} from 'react'
 import {geminiService, SmallBusinessAnalysis} from '../../services/gemini'
+import {ScreenAnalysis} from '../../services/analysisScheduler'
 import {usePreloadedSavedProducts} from '../../contexts/DataContext'
+import {useStoryHold} from '../../contexts/StoryPlaybackContext'
+import {useScreenAnalysis} from '../../hooks/useScreenAnalysis'
+import {StoryProduct, StoryShop} from '../../services/products'
+import {AnalysisFallbackNote, describeAnalysisProblem} from '../AnalysisFallbackNote'
+import {countDistinctShops, registerScreen} from './registry'
 
 type SmallBusinessScreenProps = {
   onNext: () => void
   onPrevious: () => void
 }
 
-/**
- * A screen component that analyzes saved products to identify small businesses
- * and displays merchant cards for small businesses the user has purchased from most.
- * Now styled with authentic scrapbook theme to match TitleScreen.
- */
-export function SmallBusinessScreen({onNext, onPrevious}: SmallBusinessScreenProps) {
-  const handleClick = (e: React.MouseEvent) => {
-    const rect = e.currentTarget.getBoundingClientRect()
-    const clickX = e.clientX - rect.left
-    const screenWidth = rect.width
-    
-    // If clicked on left half, go back; if clicked on right half, go forward
-    if (clickX < screenWidth / 2) {
-      onPrevious()
-    } else {
-      onNext()
-    }
-  }
-  const {products, loading, error} = usePreloadedSavedProducts({first: 10})
-  const [analysis, setAnalysis] = useState<SmallBusinessAnalysis | null>(null)
-  const [analyzing, setAnalyzing] = useState(false)
-  const [analysisError, setAnalysisError] = useState<string | null>(null)
+// Group products by shop, keeping up to 3 sample products per shop for variety
+export const countShops = (products: StoryProduct[]) =>
+  products.reduce((acc, product) => {
+    const shop = product.shop
 
-  // Analyze businesses when products are loaded
-  useEffect(() => {
-    if (!loading && !error && products && products.length > 0 && !analysis && !analyzing) {
-      analyzeBusinesses()
+    if (!acc[shop.id]) {
+      acc[shop.id] = {
+        shop: shop,
+        count: 0,
+        sampleProducts: []
+      }
     }
-  }, [products, loading, error, analysis, analyzing])
-
-  const analyzeBusinesses = async () => {
-    if (!products) return
-
-    setAnalyzing(true)
-    setAnalysisError(null)
+    acc[shop.id].count += 1
+    if (acc[shop.id].sampleProducts.length < 3) {
+      acc[shop.id].sampleProducts.push(product)
+    }
+    return acc
+  }, {} as Record<string, {shop: StoryShop, count: number, sampleProducts: StoryProduct[]}>)
 
-    try {
-      // Extract unique shops and count their occurrences, storing shop objects and sample products
-      const shopCounts = products.reduce((acc, product) => {
-        const shop = product.shop
-        const shopId = shop.id || shop.name || 'unknown'
-        
-        // Debug: Log shop properties to understand what's available
-        if (!acc[shopId]) {
-          console.log('Shop object for small business analysis:', {
-            id: shop.id,
-            name: shop.name,
-            logo: (shop as any).logo,
-            description: (shop as any).description,
-            allProperties: Object.keys(shop)
-          })
-        }
-        
-        if (!acc[shopId]) {
-          acc[shopId] = {
-            shop: shop,
-            count: 0,
-            sampleProducts: []
-          }
-        }
-        acc[shopId].count += 1
-        // Keep up to 3 sample products for variety
-        if (acc[shopId].sampleProducts.length < 3) {
-          acc[shopId].sampleProducts.push(product)
-        }
-        return acc
-      }, {} as Record<string, {shop: any, count: number, sampleProducts: any[]}>)
+export const smallBusinessAnalysis: ScreenAnalysis<SmallBusinessAnalysis> = {
+  type: 'smallBusiness',
+  source: 'savedProducts',
+  productLimit: 10,
+  failureMessage: 'Failed to analyze businesses',
+  analyze: (products, period, signal) => {
+    // Prepare business data for analysis
+    const businesses = Object.values(countShops(products)).map(({shop, count}) => ({
+      id: shop.id,
+      name: shop.name,
+      description: shop.description,
+      followersCount: shop.followersCount,
+      reviewCount: shop.reviewCount,
+      purchaseCount: count,
+    }))
 
-      // Prepare business data for analysis
-      const businesses = Object.values(shopCounts).map(({shop, count}) => ({
-        id: shop.id || shop.name || 'unknown',
-        name: shop.name || 'Unknown Business',
-        description: (shop as any).description || '',
-        followersCount: (shop as any).followersCount || 0,
-        reviewCount: (shop as any).reviewAnalytics?.reviewCount || 0,
-        purchaseCount: count,
-      }))
+    console.log('Analyzing businesses:', businesses)
+    return geminiService.analyzeSmallBusinesses(businesses, period, signal)
+  },
+}
 
-      console.log('Analyzing businesses:', businesses)
+/**
+ * A screen component that analyzes saved products to identify small businesses
+ * and displays merchant cards for small businesses the user has purchased from most.
+ * Now styled with authentic scrapbook theme to match TitleScreen.
+ */
+export function SmallBusinessScreen({onNext}: SmallBusinessScreenProps) {
+  const {products, loading, error} = usePreloadedSavedProducts({first: smallBusinessAnalysis.productLimit})
+  const {data: analysis, error: analysisError, errorKind, isAnalyzing: analyzing} = useScreenAnalysis(
+    smallBusinessAnalysis,
+    loading || error ? null : products
+  )
 
-      const result = await geminiService.analyzeSmallBusinesses(businesses)
-      
-      if (result.success && result.data) {
-        setAnalysis(result.data)
-      } else {
-        setAnalysisError(result.error || 'Failed to analyze businesses')
-      }
-    } catch (error) {
-      console.error('Error analyzing businesses:', error)
-      setAnalysisError('An error occurred while analyzing businesses')
-    } finally {
-      setAnalyzing(false)
-    }
-  }
+  // Pause auto-advance while businesses are still being classified
+  useStoryHold(loading || analyzing)
 
   // Base scrapbook background style (matching TitleScreen)
   const scrapbookStyle = {
@@ -127,7 +92,6 @@ export function SmallBusinessScreen({onNext, onPrevious}: SmallBusinessScreenPro
     return (
       <div 
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer overflow-hidden relative" 
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -147,10 +111,7 @@ export function SmallBusinessScreen({onNext, onPrevious}: SmallBusinessScreenPro
             {loading ? 'Gathering your shopping evidence...' : 'AI is checking which brands are small biz...'}
           </p>
           <button 
-            onClick={(e) => {
-              e.stopPropagation()
-              onNext()
-            }}
+            onClick={onNext}
             className="bg-white/90 backdrop-blur-md border-2 border-amber-300 text-amber-800 px-8 py-3 rounded-lg hover:bg-white transition-all duration-300 font-semibold shadow-md hover:shadow-lg transform hover:scale-105"
           >
             Skip Analysis
@@ -165,7 +126,6 @@ export function SmallBusinessScreen({onNext, onPrevious}: SmallBusinessScreenPro
     return (
       <div
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -180,7 +140,7 @@ export function SmallBusinessScreen({onNext, onPrevious}: SmallBusinessScreenPro
           </div>
           <h3 className="text-2xl font-bold mb-2 text-amber-600">That's Not Very Small Biz of Us</h3>
           <p className="text-amber-700 text-lg mb-6">
-            {error ? 'Your items are being shy rn' : `The small biz detector broke: ${analysisError}`}
+            {error ? 'Your items are being shy rn' : `The small biz detector broke: ${describeAnalysisProblem(errorKind) ?? analysisError}`}
           </p>
           <p className="text-amber-600">Tap anywhere to keep it moving</p>
         </div>
@@ -193,7 +153,6 @@ export function SmallBusinessScreen({onNext, onPrevious}: SmallBusinessScreenPro
     return (
       <div
         className="w-full h-full rounded-lg p-8 flex flex-col items-center justify-center cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -222,53 +181,31 @@ export function SmallBusinessScreen({onNext, onPrevious}: SmallBusinessScreenPro
   }
 
   // Extract shop counts for small businesses
-  const shopCounts = products.reduce((acc, product) => {
-    const shop = product.shop
-    const shopId = shop.id || shop.name || 'unknown'
-    
-    if (!acc[shopId]) {
-      acc[shopId] = {
-        shop: shop,
-        count: 0,
-        sampleProducts: []
-      }
-    }
-    acc[shopId].count += 1
-    // Keep up to 3 sample products for variety
-    if (acc[shopId].sampleProducts.length < 3) {
-      acc[shopId].sampleProducts.push(product)
-    }
-    return acc
-  }, {} as Record<string, {shop: any, count: number, sampleProducts: any[]}>)
+  const shopCounts = countShops(products)
 
   // Get small businesses from analysis, sorted by purchase count
   const smallBusinessShops = analysis?.smallBusinesses
     ?.filter(business => business.isSmallBusiness)
-    ?.map(business => {
-      const shopData = Object.values(shopCounts).find(
-        ({shop}) => (shop.id || shop.name) === business.businessId
-      )
-      return {
-        ...business,
-        shop: shopData?.shop,
-        purchaseCount: shopData?.count || 0,
-        sampleProducts: shopData?.sampleProducts || []
-      }
+    ?.flatMap(business => {
+      const shopData = shopCounts[business.businessId]
+      // Only include businesses where we found shop data
+      return shopData
+        ? [{...business, shop: shopData.shop, purchaseCount: shopData.count, sampleProducts: shopData.sampleProducts}]
+        : []
     })
-    ?.filter(business => business.shop) // Only include businesses where we found shop data
     ?.sort((a, b) => b.purchaseCount - a.purchaseCount) || []
 
   console.log('Small business shops:', smallBusinessShops)
 
   // Function to determine shop genre from sample products
-  const getShopGenre = (sampleProducts: any[]): string => {
+  const getShopGenre = (sampleProducts: StoryProduct[]): string => {
     if (!sampleProducts || sampleProducts.length === 0) return 'Small Business'
     
     // Collect all product types and titles
     const productInfo = sampleProducts.map(product => ({
-      title: product.title?.toLowerCase() || '',
-      type: (product as any).productType || (product as any).category || (product as any).type || '',
-      description: (product as any).description?.toLowerCase() || ''
+      title: product.title.toLowerCase(),
+      type: product.productType,
+      description: product.description.toLowerCase()
     }))
     
     // Analyze common themes
@@ -329,7 +266,6 @@ export function SmallBusinessScreen({onNext, onPrevious}: SmallBusinessScreenPro
   return (
     <div
       className="w-full h-full rounded-lg p-4 overflow-y-auto cursor-pointer relative"
-      onClick={handleClick}
       style={scrapbookStyle}
     >
       {/* Decorative tape pieces */}
@@ -460,9 +396,9 @@ export function SmallBusinessScreen({onNext, onPrevious}: SmallBusinessScreenPro
                         </div>
                         
                         {/* Shop description with more space */}
-                        {(shop as any).description && (
+                        {shop.description && (
                           <p className="text-amber-700 text-sm mb-3 leading-relaxed">
-                            {(shop as any).description}
+                            {shop.description}
                           </p>
                         )}
                         
@@ -505,6 +441,21 @@ export function SmallBusinessScreen({onNext, onPrevious}: SmallBusinessScreenPro
         </div>
       )}
 
+      <AnalysisFallbackNote errorKind={errorKind} />
     </div>
   )
-}
\ No newline at end of file
+}
+
+registerScreen({
+  type: 'smallBusiness',
+  component: SmallBusinessScreen,
+  dataRequirements: ['savedProducts'],
+  shareable: true,
+  shareText: 'Supporting small businesses in my shopping! 🏪❤️',
+  progress: 'timed',
+  durationMs: 10000,
+  analysis: smallBusinessAnalysis,
+  // Comparing businesses needs more than one of them
+  isEligible: ({savedProducts}) =>
+    countDistinctShops(savedProducts.slice(0, smallBusinessAnalysis.productLimit)) >= 2,
+})
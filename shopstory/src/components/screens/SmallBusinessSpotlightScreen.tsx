@@ -0,0 +1,139 @@
+import {usePreloadedSavedProducts} from '../../contexts/DataContext'
+import {useStoryHold} from '../../contexts/StoryPlaybackContext'
+import {useScreenAnalysis} from '../../hooks/useScreenAnalysis'
+import {StoryProduct} from '../../services/products'
+import {countShops, smallBusinessAnalysis} from './SmallBusiness'
+import {registerScreen} from './registry'
+
+type SmallBusinessSpotlightScreenProps = {
+  onNext: () => void
+  onPrevious: () => void
+}
+
+/**
+ * Follow-up to the small business screen, meant to be branched to when at least one small
+ * business was found. Puts the one Gemini is most confident about in the spotlight, with
+ * the products the user saved from it.
+ */
+export function SmallBusinessSpotlightScreen({onNext}: SmallBusinessSpotlightScreenProps) {
+  const {products, loading} = usePreloadedSavedProducts({first: smallBusinessAnalysis.productLimit})
+  const {data: analysis, isAnalyzing} = useScreenAnalysis(smallBusinessAnalysis, loading ? null : products)
+
+  // Only waits if the screen was reached without its branch being checked, e.g. via a deep link
+  useStoryHold(loading || isAnalyzing)
+
+  // Base scrapbook background style
+  const scrapbookStyle = {
+    background: `
+      radial-gradient(circle at 20% 30%, rgba(139, 69, 19, 0.03) 1px, transparent 1px),
+      radial-gradient(circle at 80% 70%, rgba(139, 69, 19, 0.02) 1px, transparent 1px),
+      radial-gradient(circle at 40% 80%, rgba(139, 69, 19, 0.02) 1px, transparent 1px),
+      linear-gradient(90deg, rgba(139, 69, 19, 0.01) 50%, transparent 50%),
+      linear-gradient(180deg, rgba(139, 69, 19, 0.01) 50%, transparent 50%),
+      linear-gradient(135deg,
+        #faf5f0 0%,
+        #f7f1ea 25%,
+        #f5ede4 50%,
+        #f3e9de 75%,
+        #f1e5d8 100%
+      )
+    `,
+    backgroundSize: '40px 40px, 60px 60px, 30px 30px, 8px 8px, 12px 12px, 100% 100%',
+    boxShadow: 'inset 0 0 120px rgba(139, 69, 19, 0.1), inset 0 0 40px rgba(139, 69, 19, 0.05)',
+  }
+
+  const spotlight = analysis?.smallBusinesses
+    .filter(business => business.isSmallBusiness)
+    .sort((a, b) => b.confidence - a.confidence)[0]
+  const shopData = spotlight && products ? countShops(products)[spotlight.businessId] : undefined
+
+  if (!spotlight) {
+    return (
+      <div
+        className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 p-4 relative overflow-hidden"
+        style={scrapbookStyle}
+      >
+        {/* Decorative tape pieces */}
+        <div className="absolute top-5 right-5 w-9 h-4 bg-white bg-opacity-80 border border-amber-200 shadow-sm transform rotate-12 z-20" style={{ borderRadius: '1px' }} />
+
+        <div className="text-center z-10">
+          <div className={`text-3xl mb-4 ${isAnalyzing || loading ? 'animate-pulse' : ''}`}>🔦</div>
+          <p className="text-lg font-semibold text-amber-900">
+            {isAnalyzing || loading ? 'Setting up the spotlight...' : 'No small business to spotlight this time'}
+          </p>
+          {!isAnalyzing && !loading && (
+            <button
+              onClick={onNext}
+              className="mt-4 bg-amber-700 hover:bg-amber-800 text-white font-medium py-2 px-6 rounded-lg transition-colors border border-amber-600"
+            >
+              Continue
+            </button>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  const sampleProducts: StoryProduct[] = shopData?.sampleProducts ?? []
+
+  return (
+    <div
+      className="w-full h-full rounded-lg p-4 overflow-y-auto relative flex flex-col items-center justify-center"
+      style={scrapbookStyle}
+    >
+      {/* Decorative tape pieces */}
+      <div className="absolute top-2 left-3 w-8 h-3 bg-white bg-opacity-90 border border-amber-300 shadow-sm transform -rotate-12 z-20" style={{ borderRadius: '1px' }} />
+      <div className="absolute top-2 right-3 w-7 h-3 bg-white bg-opacity-90 border border-amber-300 shadow-sm transform rotate-12 z-20" style={{ borderRadius: '1px' }} />
+
+      <p className="text-sm uppercase tracking-widest text-amber-700 mb-2 z-10">🔦 Small Biz Spotlight</p>
+      <h2 className="text-3xl font-bold text-amber-900 text-center mb-1 z-10">{spotlight.businessName}</h2>
+      {spotlight.businessType && (
+        <div className="bg-green-100 text-green-800 px-3 py-1 rounded-full text-xs font-medium border border-green-200 mb-4 z-10">
+          {spotlight.businessType}
+        </div>
+      )}
+
+      {sampleProducts.some(product => product.featuredImage) && (
+        <div className="flex justify-center gap-3 mb-5 z-10">
+          {sampleProducts
+            .filter(product => product.featuredImage)
+            .map((product, index) => (
+              <div
+                key={product.id}
+                className={`w-20 h-24 bg-white p-1 pb-4 rounded-sm shadow-md border border-amber-200 transform ${index % 2 === 0 ? '-rotate-3' : 'rotate-3'}`}
+              >
+                <img
+                  src={product.featuredImage!.url}
+                  alt={product.featuredImage!.altText || product.title}
+                  className="w-full h-full object-cover"
+                />
+              </div>
+            ))}
+        </div>
+      )}
+
+      <div className="bg-white border-2 border-green-200 rounded-lg p-4 relative shadow-md transform rotate-1 max-w-sm z-10">
+        {/* Tape corners */}
+        <div className="absolute -top-1 -right-1 w-4 h-2 bg-white bg-opacity-90 border border-amber-300 transform rotate-12 z-10" />
+        <div className="absolute -bottom-1 -left-1 w-3 h-2 bg-white bg-opacity-90 border border-amber-300 transform -rotate-12 z-10" />
+
+        <p className="text-sm text-amber-800">{spotlight.reasoning}</p>
+        {shopData && (
+          <p className="text-xs text-amber-700 mt-3 font-semibold">
+            You've saved {shopData.count} of their product{shopData.count !== 1 ? 's' : ''}. They notice. 💚
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+registerScreen({
+  type: 'smallBusinessSpotlight',
+  component: SmallBusinessSpotlightScreen,
+  dataRequirements: ['savedProducts'],
+  shareable: true,
+  shareText: 'Shouting out my favorite small business! 🔦💚',
+  progress: 'timed',
+  durationMs: 8000,
+})
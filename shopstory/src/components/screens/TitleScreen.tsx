@@ -1,8 +1,17 @@
-import {
-  Product,
-} from '@shopify/shop-minis-react'
 import {TitleScreenData} from '../StoryView'
-import {usePreloadedSavedProducts} from '../../contexts/DataContext'
+import {DataSource, useDataStatus, usePreloadedSavedProducts, useStoryPeriod} from '../../contexts/DataContext'
+import {useStoryHold, useStoryResume} from '../../contexts/StoryPlaybackContext'
+import {StoryProduct} from '../../services/products'
+import {PeriodPicker} from '../PeriodPicker'
+import {registerScreen} from './registry'
+
+// How the sources read in "We couldn't load ..."
+const SOURCE_LABELS: Record<DataSource, string> = {
+  savedProducts: 'your saved items',
+  recommendedProducts: 'your recommendations',
+  popularProducts: "what's trending",
+  orders: 'your orders',
+}
 
 type TitleScreenProps = {
   onNext: () => void
@@ -13,10 +22,18 @@ type TitleScreenProps = {
 /**
  * A title screen with scrapbook paper background, original Tailwind styling,
  * and animated product images that slide across the screen.
+ * Also where the user picks the period the story recaps, when the data allows (see PeriodPicker), and where
+ * they can retry when some of their data couldn't be loaded.
  */
-export function TitleScreen({onNext, onPrevious}: TitleScreenProps) {
+export function TitleScreen({onNext}: TitleScreenProps) {
   // Use preloaded saved products for animations
-  const {products, loading, error} = usePreloadedSavedProducts({first: 5})
+  const {products, loading, error, loadedCount} = usePreloadedSavedProducts({first: 5})
+  const resume = useStoryResume()
+  const {period, canChoosePeriod} = useStoryPeriod()
+  const {status, failedSources, retry} = useDataStatus()
+
+  // Don't auto-advance past the continue / start over choice, or the try again / skip one
+  useStoryHold(!!resume || status === 'partial')
 
   // Base component structure
   const renderContent = () => (
@@ -32,28 +49,59 @@ export function TitleScreen({onNext, onPrevious}: TitleScreenProps) {
       {/* Title and Subtitle - brown text for scrapbook aesthetic */}
       <div className="relative z-10 text-center">
         <h1 className="text-5xl font-extrabold tracking-tight text-amber-900 drop-shadow-sm">ShopStory</h1>
-        <p className="text-xl font-light mt-2 text-amber-800">Your Style, Unboxed</p>
+        <p className="text-xl font-light mt-2 text-amber-800">
+          {period.preset === 'allTime' ? 'Your Style, Unboxed' : `Your ${period.label}, Unboxed`}
+        </p>
+        {canChoosePeriod && <PeriodPicker />}
+        {status === 'partial' && (
+          <div className="mt-6 bg-white bg-opacity-80 border border-amber-200 rounded-lg p-4 shadow-sm">
+            <p className="text-sm text-amber-900 mb-3">
+              We couldn't load {failedSources.map(source => SOURCE_LABELS[source]).join(' or ')}, so a few screens are missing.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={retry}
+                className="flex-1 bg-amber-600 hover:bg-amber-700 text-white font-medium py-2 px-4 rounded-lg transition-colors border border-amber-500"
+              >
+                Try again
+              </button>
+              <button
+                onClick={onNext}
+                className="flex-1 bg-white hover:bg-amber-50 text-amber-800 font-medium py-2 px-4 rounded-lg transition-colors border border-amber-300"
+              >
+                Skip those
+              </button>
+            </div>
+          </div>
+        )}
+        {resume && (
+          <div className="mt-6 bg-white bg-opacity-80 border border-amber-200 rounded-lg p-4 shadow-sm">
+            <p className="text-sm text-amber-900 mb-3">
+              Pick up where you left off in <span className="font-semibold">{resume.storyTitle}</span>?
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={resume.onContinue}
+                className="flex-1 bg-amber-600 hover:bg-amber-700 text-white font-medium py-2 px-4 rounded-lg transition-colors border border-amber-500"
+              >
+                Continue
+              </button>
+              <button
+                onClick={resume.onStartOver}
+                className="flex-1 bg-white hover:bg-amber-50 text-amber-800 font-medium py-2 px-4 rounded-lg transition-colors border border-amber-300"
+              >
+                Start over
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </>
   )
 
-  const handleClick = (e: React.MouseEvent) => {
-    const rect = e.currentTarget.getBoundingClientRect()
-    const clickX = e.clientX - rect.left
-    const screenWidth = rect.width
-    
-    // If clicked on left half, go back; if clicked on right half, go forward
-    if (clickX < screenWidth / 2) {
-      onPrevious()
-    } else {
-      onNext()
-    }
-  }
-
   return (
     <div
       className="w-full h-full rounded-lg flex items-center justify-center text-gray-800 cursor-pointer relative overflow-hidden"
-      onClick={handleClick}
       style={{
         // Beautiful scrapbook paper background
         background: `
@@ -97,11 +145,25 @@ export function TitleScreen({onNext, onPrevious}: TitleScreenProps) {
         <div className="relative z-10 text-center">
           <div className="text-5xl font-extrabold tracking-tight text-amber-900 drop-shadow-sm mb-2">ShopStory</div>
           <p className="text-xl font-light text-amber-800">Curating your vibe...</p>
+          {/* Heavy savers' history comes in a page at a time */}
+          {loadedCount > 0 && (
+            <p className="text-sm text-amber-700 mt-2">
+              Flipped through {loadedCount} saved find{loadedCount !== 1 ? 's' : ''} so far
+            </p>
+          )}
         </div>
       ) : error ? (
-        <p className="relative z-10 text-center text-red-600">
-          Oops, your items are being shy rn.
-        </p>
+        <div className="relative z-10 text-center">
+          <p className="text-red-600">
+            Oops, your items are being shy rn.
+          </p>
+          <button
+            onClick={retry}
+            className="mt-4 bg-amber-600 hover:bg-amber-700 text-white font-medium py-2 px-6 rounded-lg transition-colors border border-amber-500"
+          >
+            Try again
+          </button>
+        </div>
       ) : (
         renderContent()
       )}
@@ -114,7 +176,7 @@ export function TitleScreen({onNext, onPrevious}: TitleScreenProps) {
  * The animation properties (duration, delay, vertical position) are staggered
  * based on the component's index.
  */
-function AnimatedProduct({product, index}: {product: Product; index: number}) {
+function AnimatedProduct({product, index}: {product: StoryProduct; index: number}) {
   // Array of vertical positions for a more staggered "up and down" look.
   const topPositions = ['15%', '65%', '40%', '75%', '5%']
   const topPosition = topPositions[index % topPositions.length]
@@ -123,7 +185,7 @@ function AnimatedProduct({product, index}: {product: Product; index: number}) {
   const animationDuration = 6 + index * 1 // e.g., 6s, 7s, 8s...
   const animationDelay = index * 0.2 // e.g., 0s, 0.2s, 0.4s...
 
-  // Use the featuredImage property, which is of type ProductImage.
+  // Products without any image are left out of the collage
   if (!product.featuredImage) {
     return null
   }
@@ -162,4 +224,14 @@ function AnimatedProduct({product, index}: {product: Product; index: number}) {
       </div>
     </>
   )
-}
\ No newline at end of file
+}
+
+registerScreen({
+  type: 'title',
+  component: TitleScreen,
+  options: {imageUrl: 'string'},
+  dataRequirements: ['savedProducts'],
+  shareable: true,
+  shareText: 'Check out my shopping story! 🛍️',
+  progress: 'timed',
+})
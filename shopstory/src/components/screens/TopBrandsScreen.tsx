@@ -1,4 +1,8 @@
-import {usePreloadedSavedProducts} from '../../contexts/DataContext'
+import {usePreloadedOrders, usePreloadedSavedProducts, useStoryPeriod} from '../../contexts/DataContext'
+import {countOrdersByShop, getPurchasedProductIds} from '../../services/orders'
+import {useStoryHold} from '../../contexts/StoryPlaybackContext'
+import {countShops} from './SmallBusiness'
+import {countDistinctShops, registerScreen} from './registry'
 
 type TopBrandsScreenProps = {
   onNext: () => void
@@ -10,20 +14,14 @@ type TopBrandsScreenProps = {
  * Features authentic scrapbook aesthetics with polaroid-style brand cards, handwritten notes,
  * and decorative tape elements. Shows actual saved product images for a personal touch.
  */
-export function TopBrandsScreen({onNext, onPrevious}: TopBrandsScreenProps) {
-  const handleClick = (e: React.MouseEvent) => {
-    const rect = e.currentTarget.getBoundingClientRect()
-    const clickX = e.clientX - rect.left
-    const screenWidth = rect.width
-    
-    // If clicked on left half, go back; if clicked on right half, go forward
-    if (clickX < screenWidth / 2) {
-      onPrevious()
-    } else {
-      onNext()
-    }
-  }
-  const {products, loading, error} = usePreloadedSavedProducts({first: 20})
+export function TopBrandsScreen({onNext}: TopBrandsScreenProps) {
+  const {products, loading, error} = usePreloadedSavedProducts()
+  // Brands are ranked by saves; orders add which of them the user actually bought from
+  const {orders, loading: ordersLoading} = usePreloadedOrders()
+  const {period} = useStoryPeriod()
+
+  // Wait for saved products before the timer starts
+  useStoryHold(loading || ordersLoading)
   
   console.log('TopBrandsScreen render:', { products, loading, error })
 
@@ -51,7 +49,6 @@ export function TopBrandsScreen({onNext, onPrevious}: TopBrandsScreenProps) {
     return (
       <div 
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer overflow-hidden relative" 
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -67,12 +64,9 @@ export function TopBrandsScreen({onNext, onPrevious}: TopBrandsScreenProps) {
           <h3 className="text-2xl font-bold mb-2 text-amber-900">
             Discovering Your Brand Obsessions
           </h3>
-          <p className="text-amber-800 mb-8 text-lg">Analyzing your shopping receipts...</p>
+          <p className="text-amber-800 mb-8 text-lg">Flipping through your saves...</p>
           <button 
-            onClick={(e) => {
-              e.stopPropagation()
-              onNext()
-            }}
+            onClick={onNext}
             className="bg-white/90 backdrop-blur-md border-2 border-amber-300 text-amber-800 px-8 py-3 rounded-lg hover:bg-white transition-all duration-300 font-semibold shadow-md hover:shadow-lg transform hover:scale-105"
           >
             Skip Loading
@@ -86,7 +80,6 @@ export function TopBrandsScreen({onNext, onPrevious}: TopBrandsScreenProps) {
     return (
       <div
         className="w-full h-full rounded-lg flex items-center justify-center text-amber-900 cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -109,46 +102,20 @@ export function TopBrandsScreen({onNext, onPrevious}: TopBrandsScreenProps) {
   // Debug: Log the products to see what we're working with
   console.log('Products from preloaded data:', products)
   
-  // Debug: Log the first shop object to see available properties
-  if (products.length > 0) {
-    const firstShop = products[0].shop as any
-    console.log('First shop object properties:', {
-      id: firstShop.id,
-      name: firstShop.name,
-      logo: firstShop.logo,
-      description: firstShop.description,
-      followersCount: firstShop.followersCount,
-      reviewAnalytics: firstShop.reviewAnalytics,
-      isFollowing: firstShop.isFollowing,
-      allProperties: Object.keys(firstShop)
-    })
-  }
-
-  // Extract unique shops and count their occurrences, storing shop objects and sample products
-  const shopCounts = products.reduce((acc, product) => {
-    const shop = product.shop
-    const shopId = shop.id || shop.name || 'unknown'
-    
-    if (!acc[shopId]) {
-      acc[shopId] = {
-        shop: shop,
-        count: 0,
-        sampleProducts: []
-      }
-    }
-    acc[shopId].count += 1
-    // Keep up to 3 sample products for variety
-    if (acc[shopId].sampleProducts.length < 3) {
-      acc[shopId].sampleProducts.push(product)
-    }
-    return acc
-  }, {} as Record<string, {shop: any, count: number, sampleProducts: any[]}>)
+  // Unique shops with how often each was saved from, plus a few sample products
+  const shopCounts = countShops(products)
 
   // Get top 5 shops by count
   const topShops = Object.values(shopCounts)
     .sort((a, b) => b.count - a.count)
     .slice(0, 5)
 
+  const orderCounts = countOrdersByShop(orders ?? [])
+  // Which saves were bought too, so each brand shows what was wanted apart from what was bought
+  const purchasedIds = getPurchasedProductIds(orders ?? [])
+  const countBought = (shopId: string) =>
+    products.filter(product => product.shop.id === shopId && purchasedIds.has(product.id)).length
+
   console.log('Top shops with sample products:', topShops.map(({shop, count, sampleProducts}) => ({
     shopName: shop.name,
     count,
@@ -162,7 +129,6 @@ export function TopBrandsScreen({onNext, onPrevious}: TopBrandsScreenProps) {
     return (
       <div
         className="w-full h-full rounded-lg p-8 flex flex-col items-center justify-center cursor-pointer overflow-hidden relative"
-        onClick={handleClick}
         style={scrapbookStyle}
       >
         {/* Decorative tape pieces */}
@@ -219,7 +185,6 @@ export function TopBrandsScreen({onNext, onPrevious}: TopBrandsScreenProps) {
   return (
     <div
       className="w-full h-full rounded-lg p-4 overflow-y-auto cursor-pointer relative flex flex-col"
-      onClick={handleClick}
       style={scrapbookStyle}
     >
       {/* Decorative tape pieces */}
@@ -238,18 +203,22 @@ export function TopBrandsScreen({onNext, onPrevious}: TopBrandsScreenProps) {
             Your Brand Hall of Fame
           </h2>
         </div>
-        <p className="text-amber-800 text-sm">Based on your {products.length} saved products</p>
+        <p className="text-amber-800 text-sm">
+          Based on your {products.length} saved products{orders && orders.length > 0 ? ` and ${orders.length} orders` : ''}
+          {period.preset !== 'allTime' && ` from ${period.label}`}
+        </p>
       </div>
 
       {/* Brands as scrapbook polaroid-style cards */}
       <div className="flex flex-col justify-between flex-1 relative z-10 pb-6">
         {topShops.map(({shop, count, sampleProducts}, index) => {
           const rankStyle = getRankStyle(index)
-          const shopData = shop as any // Type assertion for extended properties
+          const orderCount = orderCounts.get(shop.id) ?? 0
+          const boughtCount = countBought(shop.id)
           
           return (
             <div
-              key={shop.id || shop.name}
+              key={shop.id}
               className={`bg-white rounded-lg p-4 border-2 ${rankStyle.borderColor} hover:border-opacity-70 hover:shadow-lg transition-all duration-300 transform hover:scale-[1.01] relative overflow-hidden shadow-md ${rankStyle.rotation}`}
             >
               {/* Tape corners for each card */}
@@ -316,7 +285,7 @@ export function TopBrandsScreen({onNext, onPrevious}: TopBrandsScreenProps) {
                   ) : (
                     <div className="w-14 h-14 bg-white p-2 rounded-lg shadow-md border border-amber-200 flex items-center justify-center">
                       <span className="text-amber-700 font-bold text-lg">
-                        {shop.name?.charAt(0).toUpperCase() || '?'}
+                        {shop.name.charAt(0).toUpperCase()}
                       </span>
                     </div>
                   )}
@@ -326,9 +295,9 @@ export function TopBrandsScreen({onNext, onPrevious}: TopBrandsScreenProps) {
                 <div className="flex-1 min-w-0">
                   <div className="flex items-start justify-between mb-2">
                     <h3 className="font-bold text-lg text-amber-900 truncate pr-2 hover:text-amber-700 transition-colors">
-                      {shop.name || 'Unknown Brand'}
+                      {shop.name}
                     </h3>
-                    {shopData.isFollowing && (
+                    {shop.isFollowing && (
                       <span className="inline-flex items-center gap-1 text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded-full font-medium border border-amber-300">
                         <svg className="w-2.5 h-2.5" fill="currentColor" viewBox="0 0 24 24">
                           <path d="M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z"/>
@@ -339,9 +308,9 @@ export function TopBrandsScreen({onNext, onPrevious}: TopBrandsScreenProps) {
                   </div>
                   
                   {/* Shop description */}
-                  {shopData.description && (
+                  {shop.description && (
                     <p className="text-amber-700 text-xs mb-2 line-clamp-1 leading-relaxed">
-                      {shopData.description}
+                      {shop.description}
                     </p>
                   )}
                   
@@ -350,32 +319,50 @@ export function TopBrandsScreen({onNext, onPrevious}: TopBrandsScreenProps) {
                     <div className="flex items-center gap-2">
                       <div className="w-2 h-2 bg-amber-600 rounded-full"></div>
                       <span className="font-semibold text-amber-800">
-                        {count} product{count !== 1 ? 's' : ''}
+                        {count} saved
                       </span>
                     </div>
+
+                    {boughtCount > 0 && (
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 bg-blue-600 rounded-full"></div>
+                        <span className="font-semibold text-blue-800">
+                          {boughtCount} bought
+                        </span>
+                      </div>
+                    )}
+
+                    {orderCount > 0 && (
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 bg-green-600 rounded-full"></div>
+                        <span className="font-semibold text-green-800">
+                          {orderCount} order{orderCount !== 1 ? 's' : ''}
+                        </span>
+                      </div>
+                    )}
                     
-                    {shopData.followersCount && (
+                    {shop.followersCount > 0 && (
                       <div className="flex items-center gap-2 text-amber-700">
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
                         </svg>
-                        <span>{shopData.followersCount.toLocaleString()}</span>
+                        <span>{shop.followersCount.toLocaleString()}</span>
                       </div>
                     )}
                     
-                    {shopData.reviewAnalytics?.averageRating && (
+                    {shop.averageRating && (
                       <div className="flex items-center gap-2">
                         <div className="flex items-center gap-1">
                           <svg className="w-4 h-4 text-yellow-600" fill="currentColor" viewBox="0 0 24 24">
                             <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z"/>
                           </svg>
                           <span className="font-semibold text-amber-800">
-                            {shopData.reviewAnalytics.averageRating.toFixed(1)}
+                            {shop.averageRating.toFixed(1)}
                           </span>
                         </div>
-                        {shopData.reviewAnalytics.reviewCount && (
+                        {shop.reviewCount > 0 && (
                           <span className="text-amber-700">
-                            ({shopData.reviewAnalytics.reviewCount})
+                            ({shop.reviewCount})
                           </span>
                         )}
                       </div>
@@ -390,4 +377,16 @@ export function TopBrandsScreen({onNext, onPrevious}: TopBrandsScreenProps) {
 
     </div>
   )
-}
\ No newline at end of file
+}
+
+registerScreen({
+  type: 'topBrands',
+  component: TopBrandsScreen,
+  dataRequirements: ['savedProducts'],
+  shareable: true,
+  shareText: 'My top shopping brands revealed! 🏆👜',
+  progress: 'timed',
+  durationMs: 8000,
+  // A ranking of one brand isn't much of a ranking
+  isEligible: ({savedProducts}) => countDistinctShops(savedProducts) >= 2,
+})
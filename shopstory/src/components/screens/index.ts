@@ -0,0 +1,18 @@
+// Importing each screen module registers it with the screen registry.
+// Add new screens here after calling registerScreen in their module.
+import './TitleScreen'
+import './ColorScreen'
+import './PopularProductsScreen'
+import './CarbonFootprint'
+import './TopBrandsScreen'
+import './Palette'
+import './SmallBusiness'
+import './ShippingTime'
+import './AestheticsScreen'
+import './RecommendationsScreen'
+import './ShareScreen'
+import './GreenerSwapsScreen'
+import './SmallBusinessSpotlightScreen'
+import './ComparisonScreens'
+
+export * from './registry'
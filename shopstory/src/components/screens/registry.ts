@@ -0,0 +1,144 @@
+import {ComponentType} from 'react'
+import {Screen} from '../StoryView'
+import {ScreenAnalysis} from '../../services/analysisScheduler'
+import {analysisKey, analysisStore} from '../../services/analysisStore'
+import {StoryOrder} from '../../services/orders'
+import {StoryPeriod} from '../../services/period'
+import {PeriodSummary} from '../../services/periodSummary'
+import {StoryProduct} from '../../services/products'
+
+export type ScreenType = Screen['type']
+
+// The preloaded data sources a screen reads from DataContext
+export type DataRequirement = 'savedProducts' | 'recommendedProducts' | 'popularProducts' | 'orders' | 'periodHistory'
+
+// The preloaded data an eligibility check sees, once it has loaded, already filtered to the period
+export type ScreenEligibilityData = {
+  period: StoryPeriod
+  savedProducts: StoryProduct[]
+  recommendedProducts: StoryProduct[]
+  popularProducts: StoryProduct[]
+  orders: StoryOrder[]
+  periodHistory: PeriodSummary[]
+}
+
+// How the story progress bar behaves while the screen is showing
+export type ProgressBehaviour = 'timed' | 'static'
+
+// The option types a screen can accept from the story config
+export type ScreenOptionType = 'string' | 'number' | 'boolean'
+
+// The fields of a screen's data that come from its `options` in the story config
+export type ScreenOptions<T extends ScreenType> = Omit<Extract<Screen, {type: T}>, 'type' | 'id' | 'durationMs' | 'transition' | 'when'>
+
+type OptionTypeOf<V> = V extends string ? 'string' : V extends number ? 'number' : V extends boolean ? 'boolean' : never
+
+// What type each of a screen's options must be, so the config loader can check them
+export type ScreenOptionSpec<T extends ScreenType> = {
+  [K in keyof ScreenOptions<T>]-?: OptionTypeOf<ScreenOptions<T>[K]>
+}
+
+export type ScreenProps<S extends Screen = Screen> = {
+  onNext: () => void
+  onPrevious: () => void
+  screen: S
+  allScreens?: Screen[]
+}
+
+export type ScreenRegistration<T extends ScreenType = ScreenType> = {
+  type: T
+  component: ComponentType<ScreenProps<Extract<Screen, {type: T}>>>
+  dataRequirements: DataRequirement[]
+  shareable: boolean
+  shareText?: string
+  progress: ProgressBehaviour
+  // How long a timed screen stays up before auto-advancing
+  durationMs?: number
+  // The Gemini analysis behind the screen, so StoryView can start it before the screen is reached
+  analysis?: ScreenAnalysis
+  // Whether there's enough data for the screen to be worth showing; ineligible screens are left out of the story
+  isEligible?: (data: ScreenEligibilityData) => boolean
+} & (keyof ScreenOptions<T> extends never
+  ? {options?: undefined}
+  // Options the story config must provide for this screen, keyed by name
+  : {options: ScreenOptionSpec<T>})
+
+// Any one screen type's registration
+type RegisteredScreen = {[T in ScreenType]: ScreenRegistration<T>}[ScreenType]
+
+export const DEFAULT_SCREEN_DURATION_MS = 5000
+
+export const DEFAULT_SHARE_TEXT = 'Check out my shopping story! 🛍️'
+
+const registry = new Map<ScreenType, RegisteredScreen>()
+
+/**
+ * Register a screen type. Each screen module calls this once, next to its
+ * component, so the router, share preview and story config all pick it up.
+ */
+export function registerScreen(registration: RegisteredScreen) {
+  if (registry.has(registration.type)) {
+    console.warn(`[Screens] Screen type "${registration.type}" registered twice, keeping the latest`)
+  }
+  registry.set(registration.type, registration)
+}
+
+export function getScreenRegistration<T extends ScreenType>(type: T): ScreenRegistration<T> | undefined {
+  // registerScreen only ever stores a registration under its own type
+  return registry.get(type) as ScreenRegistration<T> | undefined
+}
+
+/**
+ * The options a screen type takes from the story config, and what type each must be.
+ */
+export function getScreenOptionSpec(type: ScreenType): Record<string, ScreenOptionType> {
+  return registry.get(type)?.options ?? {}
+}
+
+export function getRegisteredScreenTypes(): ScreenType[] {
+  return Array.from(registry.keys())
+}
+
+// Find an analysis by type through the screen that registered it
+export function getScreenAnalysis(type: string): ScreenAnalysis | undefined {
+  return Array.from(registry.values()).find(registration => registration.analysis?.type === type)?.analysis
+}
+
+/**
+ * The result of an analysis for the preloaded data, read from the shared store without starting it.
+ * Undefined until the analysis has finished successfully.
+ */
+export function getStoredAnalysisResult<T = unknown>(type: string, data: ScreenEligibilityData): T | undefined {
+  const analysis = getScreenAnalysis(type)
+  const products = analysis ? data[analysis.source].slice(0, analysis.productLimit) : []
+  if (!analysis || products.length === 0) {
+    return undefined
+  }
+  const entry = analysisStore.get<T>(analysisKey(analysis.type, products, data.period))
+  return entry?.status === 'success' ? entry.data : undefined
+}
+
+export function isShareableScreen(screen: Screen): boolean {
+  return getScreenRegistration(screen.type)?.shareable ?? false
+}
+
+export function getScreenDuration(screen: Screen): number {
+  return screen.durationMs ?? getScreenRegistration(screen.type)?.durationMs ?? DEFAULT_SCREEN_DURATION_MS
+}
+
+/**
+ * Whether a screen should be part of the story given the preloaded data.
+ * Pass null while the preloaded data is still loading; until then every screen counts as eligible.
+ */
+export function isScreenEligible(screen: Screen, data: ScreenEligibilityData | null): boolean {
+  const isEligible = getScreenRegistration(screen.type)?.isEligible
+  return !data || !isEligible || isEligible(data)
+}
+
+export function countDistinctShops(products: StoryProduct[]): number {
+  return new Set(products.map(product => product.shop.id)).size
+}
+
+export function getShareText(screen: Screen): string {
+  return getScreenRegistration(screen.type)?.shareText || DEFAULT_SHARE_TEXT
+}
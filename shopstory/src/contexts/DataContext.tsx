@@ -1,50 +1,357 @@
-import React, { createContext, useContext, useState, useEffect } from 'react'
-import { useSavedProducts, useRecommendedProducts, Product } from '@shopify/shop-minis-react'
+import React, { createContext, useCallback, useContext, useState, useEffect, useMemo, useRef } from 'react'
+import { useSavedProducts, useRecommendedProducts, usePopularProducts, useOrders, useAsyncStorage } from '@shopify/shop-minis-react'
+import { normalizeOrders, StoryOrder } from '../services/orders'
+import { ALL_TIME, canFilterByPeriod, filterOrdersByPeriod, filterProductsByPeriod, StoryPeriod } from '../services/period'
+import { normalizeProducts, StoryProduct } from '../services/products'
+import { parsePeriodHistory, PeriodSummary, PERIOD_HISTORY_STORAGE_KEY } from '../services/periodSummary'
 
-interface DataContextType {
-  savedProducts: Product[] | null
-  recommendedProducts: Product[] | null
+// Saved products are fetched a page at a time until the whole history is in
+const SAVED_PRODUCTS_PAGE_SIZE = 25
+
+// Paging stops here so a very heavy saver isn't left waiting on the title screen
+export const DEFAULT_MAX_SAVED_PRODUCTS = 250
+
+// Recent orders to load; enough for purchase history without paging
+const ORDERS_LIMIT = 50
+
+// A source that fails is fetched again this many times, waiting longer each time, before giving up.
+// The SDK's queries already retry once on their own, so each attempt here can be two requests
+const MAX_AUTO_RETRIES = 1
+const RETRY_BASE_DELAY_MS = 1000
+
+// The SDK data a DataProvider fetches, each of which can fail on its own
+export type DataSource = 'savedProducts' | 'recommendedProducts' | 'popularProducts' | 'orders'
+
+/**
+ * Where loading stands overall, once automatic retries are counted in:
+ * - loading: something is still being fetched, or retried
+ * - ready: everything loaded
+ * - partial: saved products loaded but another source gave up; the screens built on it can't be shown
+ * - failed: saved products gave up, and nearly every screen is built on them
+ */
+export type DataStatus = 'loading' | 'partial' | 'ready' | 'failed'
+
+export interface DataContextType {
+  // The stretch of time the story recaps; saved products and orders are filtered down to it.
+  // Always all time while canChoosePeriod is false, whatever was set
+  period: StoryPeriod
+  setPeriod: (period: StoryPeriod) => void
+  // Whether the data says when it's from, so a period can be picked (see canFilterByPeriod)
+  canChoosePeriod: boolean
+  // Products come normalized (see services/products.ts); each keeps the SDK's own as `source`
+  savedProducts: StoryProduct[] | null
+  recommendedProducts: StoryProduct[] | null
+  popularProducts: StoryProduct[] | null
+  // What the user actually bought, as opposed to what they saved (see services/orders.ts)
+  orders: StoryOrder[] | null
+  // Summaries of periods recapped in earlier sessions, for comparing against (see periodSummary.ts)
+  periodHistory: PeriodSummary[] | null
+  // Where periodHistory was read from, and where this session's summaries are written
+  periodHistoryStorageKey: string
   savedProductsLoading: boolean
   recommendedProductsLoading: boolean
+  popularProductsLoading: boolean
+  ordersLoading: boolean
+  periodHistoryLoading: boolean
   savedProductsError: any
   recommendedProductsError: any
+  popularProductsError: any
+  ordersError: any
+  // How many saved products have come in so far, for showing progress while paging
+  savedProductsLoadedCount: number
+  status: DataStatus
+  // Sources that are still failing after their automatic retries
+  failedSources: DataSource[]
+  // Fetch the failed sources again, starting their retries over
+  retry: () => void
+  // True once nothing is loading any more, whether or not it all loaded
   isDataReady: boolean
 }
 
-const DataContext = createContext<DataContextType | undefined>(undefined)
+export type DataProviderProps = {
+  children: React.ReactNode
+  // Upper bound on how many saved products are loaded and analyzed
+  maxSavedProducts?: number
+  // The period the story starts out recapping, all time unless set
+  initialPeriod?: StoryPeriod
+}
+
+// Exported for alternate providers, like FixtureDataProvider; screens read it through the hooks below
+export const DataContext = createContext<DataContextType | undefined>(undefined)
+
+export function getDataStatus(isLoading: boolean, failedSources: DataSource[]): DataStatus {
+  if (isLoading) {
+    return 'loading'
+  }
+  if (failedSources.includes('savedProducts')) {
+    return 'failed'
+  }
+  return failedSources.length > 0 ? 'partial' : 'ready'
+}
+
+/**
+ * Narrow the saved products and orders to the chosen period, or keep the story on all time
+ * when they can't be placed in one. Null lists stay null while they load.
+ */
+export function usePeriodFilter(
+  chosenPeriod: StoryPeriod,
+  savedProducts: StoryProduct[] | null,
+  orders: StoryOrder[] | null,
+) {
+  const canChoosePeriod = !!savedProducts && canFilterByPeriod(savedProducts, orders ?? [])
+  const period = canChoosePeriod ? chosenPeriod : ALL_TIME
+  const filteredProducts = useMemo(
+    () => savedProducts ? filterProductsByPeriod(savedProducts, period) : null,
+    [savedProducts, period]
+  )
+  const filteredOrders = useMemo(
+    () => orders ? filterOrdersByPeriod(orders, period) : null,
+    [orders, period]
+  )
+
+  return { period, canChoosePeriod, savedProducts: filteredProducts, orders: filteredOrders }
+}
+
+/**
+ * Summaries recorded by earlier sessions (see periodSummary.ts), loaded once. Null while loading.
+ * This session's own summaries don't need reading back.
+ */
+export function useStoredPeriodHistory(storageKey: string) {
+  const storage = useAsyncStorage()
+  // The storage helpers aren't guaranteed to be stable between renders
+  const storageRef = useRef(storage)
+  storageRef.current = storage
+  const [periodHistory, setPeriodHistory] = useState<PeriodSummary[] | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    storageRef.current.getItem({ key: storageKey })
+      .then((raw: string | null) => {
+        if (!cancelled) {
+          setPeriodHistory(parsePeriodHistory(raw))
+        }
+      })
+      .catch((error: unknown) => {
+        console.error('[Data] Failed to load period history:', error)
+        if (!cancelled) {
+          setPeriodHistory([])
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [storageKey])
+
+  return periodHistory
+}
+
+type RetryingSource = {
+  loading: boolean
+  error: unknown
+  refetch?: () => Promise<unknown>
+}
+
+/**
+ * Retry a failing SDK fetch with backoff. It counts as loading until it loads or runs out of
+ * retries, and only then is its error passed on, so screens never see an error that a retry
+ * a second later would have fixed. `retry` refetches straight away and starts the count over.
+ */
+function useRetryingSource(source: DataSource, {loading, error, refetch}: RetryingSource) {
+  const [attempts, setAttempts] = useState(0)
+  const [isRetrying, setIsRetrying] = useState(false)
+  // Neither the SDK's refetch nor its error is guaranteed to be stable between renders
+  const refetchRef = useRef(refetch)
+  refetchRef.current = refetch
+  const errorRef = useRef(error)
+  errorRef.current = error
+  const hasError = !!error
 
-export function DataProvider({ children }: { children: React.ReactNode }) {
-  const [isDataReady, setIsDataReady] = useState(false)
+  const refetchNow = useCallback(() => {
+    const refetch = refetchRef.current
+    if (!refetch) {
+      return
+    }
+    setIsRetrying(true)
+    refetch()
+      .catch((refetchError: unknown) => {
+        console.error(`[Data] Retrying ${source} failed:`, refetchError)
+      })
+      .finally(() => setIsRetrying(false))
+  }, [source])
+
+  useEffect(() => {
+    if (!hasError && !loading && attempts > 0) {
+      setAttempts(0)
+    }
+  }, [hasError, loading, attempts])
+
+  useEffect(() => {
+    if (!hasError || loading || isRetrying || attempts >= MAX_AUTO_RETRIES) {
+      return undefined
+    }
+    const delayMs = RETRY_BASE_DELAY_MS * 2 ** attempts
+    console.error(`[Data] Failed to load ${source}:`, errorRef.current)
+    const timer = setTimeout(() => {
+      setAttempts(attempts + 1)
+      refetchNow()
+    }, delayMs)
+    return () => clearTimeout(timer)
+  }, [source, hasError, loading, isRetrying, attempts, refetchNow])
+
+  const hasGivenUp = hasError && !loading && !isRetrying && attempts >= MAX_AUTO_RETRIES
+  const retry = useCallback(() => {
+    setAttempts(0)
+    refetchNow()
+  }, [refetchNow])
+
+  return {
+    loading: loading || isRetrying || (hasError && !hasGivenUp),
+    error: hasGivenUp ? error : null,
+    retry,
+  }
+}
+
+export function DataProvider({ children, maxSavedProducts = DEFAULT_MAX_SAVED_PRODUCTS, initialPeriod = ALL_TIME }: DataProviderProps) {
+  const [chosenPeriod, setPeriod] = useState(initialPeriod)
+  const [isFetchingMoreSaved, setIsFetchingMoreSaved] = useState(false)
+  // Set when fetching a later page fails; the story carries on with what has loaded
+  const [savedPagingFailed, setSavedPagingFailed] = useState(false)
   
-  // Preload saved products with a higher limit to cover all screens
+  // Preload the saved products history, page by page, so aggregate screens see all of it
   const { 
-    products: savedProducts, 
-    loading: savedProductsLoading, 
-    error: savedProductsError 
-  } = useSavedProducts({ first: 25 })
+    products: loadedSavedProducts, 
+    loading: savedFirstPageLoading, 
+    error: savedFirstPageError,
+    hasNextPage: savedHasNextPage,
+    fetchMore: fetchMoreSaved,
+    refetch: refetchSaved,
+  } = useSavedProducts({ first: SAVED_PRODUCTS_PAGE_SIZE })
+  const savedFirstPage = useRetryingSource('savedProducts', {
+    loading: savedFirstPageLoading,
+    error: savedFirstPageError,
+    refetch: refetchSaved,
+  })
+
+  const savedProductsLoadedCount = Math.min(loadedSavedProducts?.length ?? 0, maxSavedProducts)
+  const hasMoreSavedProducts = !savedFirstPageError &&
+    !savedPagingFailed &&
+    !!savedHasNextPage &&
+    savedProductsLoadedCount < maxSavedProducts
+
+  useEffect(() => {
+    if (savedFirstPage.loading || isFetchingMoreSaved || !hasMoreSavedProducts || !fetchMoreSaved) {
+      return undefined
+    }
+    setIsFetchingMoreSaved(true)
+    fetchMoreSaved()
+      .catch((error: unknown) => {
+        console.error('[Data] Failed to fetch more saved products:', error)
+        setSavedPagingFailed(true)
+      })
+      .finally(() => setIsFetchingMoreSaved(false))
+    return undefined
+  }, [savedFirstPage.loading, isFetchingMoreSaved, hasMoreSavedProducts, fetchMoreSaved, savedProductsLoadedCount])
+
+  // Screens and analyses only see the saved products once every page is in, so nothing runs twice
+  const savedProductsLoading = savedFirstPage.loading || isFetchingMoreSaved || (hasMoreSavedProducts && !!fetchMoreSaved)
+  const allSavedProducts = useMemo(
+    () => loadedSavedProducts ? normalizeProducts(loadedSavedProducts.slice(0, maxSavedProducts)) : null,
+    [loadedSavedProducts, maxSavedProducts]
+  )
   
   // Preload recommended products
   const { 
-    products: recommendedProducts, 
-    loading: recommendedProductsLoading, 
-    error: recommendedProductsError 
+    products: rawRecommendedProducts, 
+    loading: recommendedFetchLoading, 
+    error: recommendedFetchError,
+    refetch: refetchRecommended,
   } = useRecommendedProducts({ first: 15 })
+  const recommended = useRetryingSource('recommendedProducts', {
+    loading: recommendedFetchLoading,
+    error: recommendedFetchError,
+    refetch: refetchRecommended,
+  })
+  const recommendedProducts = useMemo(
+    () => rawRecommendedProducts ? normalizeProducts(rawRecommendedProducts) : null,
+    [rawRecommendedProducts]
+  )
 
-  // Mark data as ready when both hooks have finished loading
-  useEffect(() => {
-    if (!savedProductsLoading && !recommendedProductsLoading) {
-      setIsDataReady(true)
-    }
-  }, [savedProductsLoading, recommendedProductsLoading])
+  // Preload popular products too, so StoryView knows up front whether there's anything trending to show
+  const { 
+    products: rawPopularProducts, 
+    loading: popularFetchLoading, 
+    error: popularFetchError,
+    refetch: refetchPopular,
+  } = usePopularProducts({ first: 6 })
+  const popular = useRetryingSource('popularProducts', {
+    loading: popularFetchLoading,
+    error: popularFetchError,
+    refetch: refetchPopular,
+  })
+  const popularProducts = useMemo(
+    () => rawPopularProducts ? normalizeProducts(rawPopularProducts) : null,
+    [rawPopularProducts]
+  )
+
+  // Preload orders, mapped onto StoryOrder so screens read plain fields
+  const { 
+    orders: rawOrders, 
+    loading: ordersFetchLoading, 
+    error: ordersFetchError,
+    refetch: refetchOrders,
+  } = useOrders({ first: ORDERS_LIMIT })
+  const ordersSource = useRetryingSource('orders', {
+    loading: ordersFetchLoading,
+    error: ordersFetchError,
+    refetch: refetchOrders,
+  })
+  const allOrders = useMemo(() => rawOrders ? normalizeOrders(rawOrders) : null, [rawOrders])
+
+  const { period, canChoosePeriod, savedProducts, orders } = usePeriodFilter(chosenPeriod, allSavedProducts, allOrders)
+
+  // What earlier sessions recorded, for the comparison screens
+  const periodHistory = useStoredPeriodHistory(PERIOD_HISTORY_STORAGE_KEY)
+  const periodHistoryLoading = periodHistory === null
+
+  const sources: Record<DataSource, ReturnType<typeof useRetryingSource>> = {
+    savedProducts: {...savedFirstPage, loading: savedProductsLoading},
+    recommendedProducts: recommended,
+    popularProducts: popular,
+    orders: ordersSource,
+  }
+  const failedSources = (Object.keys(sources) as DataSource[]).filter(source => !!sources[source].error)
+  const status = getDataStatus(
+    Object.values(sources).some(source => source.loading) || periodHistoryLoading,
+    failedSources
+  )
+
+  const retryFunctions = failedSources.map(source => sources[source].retry)
+  const retry = () => retryFunctions.forEach(retrySource => retrySource())
 
   const value: DataContextType = {
+    period,
+    setPeriod,
+    canChoosePeriod,
     savedProducts,
     recommendedProducts,
+    popularProducts,
+    orders,
+    periodHistory,
+    periodHistoryStorageKey: PERIOD_HISTORY_STORAGE_KEY,
     savedProductsLoading,
-    recommendedProductsLoading,
-    savedProductsError,
-    recommendedProductsError,
-    isDataReady
+    recommendedProductsLoading: recommended.loading,
+    popularProductsLoading: popular.loading,
+    ordersLoading: ordersSource.loading,
+    periodHistoryLoading,
+    savedProductsError: savedFirstPage.error,
+    recommendedProductsError: recommended.error,
+    popularProductsError: popular.error,
+    ordersError: ordersSource.error,
+    savedProductsLoadedCount,
+    status,
+    failedSources,
+    retry,
+    isDataReady: status !== 'loading'
   }
 
   return (
@@ -64,7 +371,7 @@ export function usePreloadedData() {
 
 // Helper hooks that mimic the original hook APIs but use preloaded data
 export function usePreloadedSavedProducts(options?: { first?: number }) {
-  const { savedProducts, savedProductsLoading, savedProductsError } = usePreloadedData()
+  const { savedProducts, savedProductsLoading, savedProductsError, savedProductsLoadedCount } = usePreloadedData()
   
   // If a specific limit is requested, slice the preloaded data
   const products = options?.first && savedProducts 
@@ -74,7 +381,8 @@ export function usePreloadedSavedProducts(options?: { first?: number }) {
   return {
     products,
     loading: savedProductsLoading,
-    error: savedProductsError
+    error: savedProductsError,
+    loadedCount: savedProductsLoadedCount
   }
 }
 
@@ -91,4 +399,50 @@ export function usePreloadedRecommendedProducts(options?: { first?: number }) {
     loading: recommendedProductsLoading,
     error: recommendedProductsError
   }
-}
\ No newline at end of file
+}
+
+export function usePreloadedPopularProducts(options?: { first?: number }) {
+  const { popularProducts, popularProductsLoading, popularProductsError } = usePreloadedData()
+  
+  // If a specific limit is requested, slice the preloaded data
+  const products = options?.first && popularProducts 
+    ? popularProducts.slice(0, options.first)
+    : popularProducts
+
+  return {
+    products,
+    loading: popularProductsLoading,
+    error: popularProductsError
+  }
+}
+
+export function useStoryPeriod() {
+  const { period, setPeriod, canChoosePeriod } = usePreloadedData()
+
+  return { period, setPeriod, canChoosePeriod }
+}
+
+export function usePreloadedPeriodHistory() {
+  const { periodHistory, periodHistoryLoading } = usePreloadedData()
+
+  return {
+    history: periodHistory,
+    loading: periodHistoryLoading
+  }
+}
+
+export function usePreloadedOrders() {
+  const { orders, ordersLoading, ordersError } = usePreloadedData()
+
+  return {
+    orders,
+    loading: ordersLoading,
+    error: ordersError
+  }
+}
+
+export function useDataStatus() {
+  const { status, failedSources, retry } = usePreloadedData()
+
+  return { status, failedSources, retry }
+}
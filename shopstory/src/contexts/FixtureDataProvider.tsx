@@ -0,0 +1,91 @@
+import { useEffect, useMemo, useState } from 'react'
+import { DataContext, DataContextType, DataProviderProps, DEFAULT_MAX_SAVED_PRODUCTS, getDataStatus, usePeriodFilter, useStoredPeriodHistory } from './DataContext'
+import { FixturePersonaId, loadFixturePersona } from '../fixtures'
+import { normalizeOrders } from '../services/orders'
+import { ALL_TIME } from '../services/period'
+import { normalizeProducts } from '../services/products'
+
+// Long enough to see the loading states, short enough not to get in the way
+const FIXTURE_LOAD_DELAY_MS = 600
+
+// Kept apart from the real history, so made-up periods never show up in a real comparison
+const FIXTURE_PERIOD_HISTORY_STORAGE_KEY = 'shopstory:fixture-period-summaries'
+
+type FixtureDataProviderProps = DataProviderProps & {
+  persona: FixturePersonaId
+}
+
+/**
+ * Stand-in for DataProvider that serves one of the fixture personas (see fixtures/index.ts)
+ * instead of the user's Shop data, through the same DataContextType, so every screen and
+ * hook works unchanged. Everything "loads" after a short delay, all at once.
+ * Period filtering and the stored period history behave as they do with live data, except
+ * that the fixtures say when each product was saved and order placed, so a period can be picked,
+ * and that their history is stored under its own key.
+ */
+export function FixtureDataProvider({
+  children,
+  persona,
+  maxSavedProducts = DEFAULT_MAX_SAVED_PRODUCTS,
+  initialPeriod = ALL_TIME,
+}: FixtureDataProviderProps) {
+  const [chosenPeriod, setPeriod] = useState(initialPeriod)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const periodHistory = useStoredPeriodHistory(FIXTURE_PERIOD_HISTORY_STORAGE_KEY)
+
+  const fixture = useMemo(() => loadFixturePersona(persona), [persona])
+  // Normalized once per persona, as DataProvider does with what the SDK returns
+  const products = useMemo(() => ({
+    saved: normalizeProducts(fixture.savedProducts),
+    recommended: normalizeProducts(fixture.recommendedProducts),
+    popular: normalizeProducts(fixture.popularProducts),
+  }), [fixture])
+
+  useEffect(() => {
+    setIsLoaded(false)
+    const timer = setTimeout(() => setIsLoaded(true), FIXTURE_LOAD_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [fixture])
+
+  const allSavedProducts = useMemo(
+    () => isLoaded ? products.saved.slice(0, maxSavedProducts) : null,
+    [isLoaded, products, maxSavedProducts]
+  )
+  const allOrders = useMemo(() => isLoaded ? normalizeOrders(fixture.orders) : null, [isLoaded, fixture])
+  const { period, canChoosePeriod, savedProducts, orders } = usePeriodFilter(chosenPeriod, allSavedProducts, allOrders)
+
+  const isLoading = !isLoaded
+  // Fixtures always load, so there's never anything to retry
+  const status = getDataStatus(isLoading || periodHistory === null, [])
+  const value: DataContextType = {
+    period,
+    setPeriod,
+    canChoosePeriod,
+    savedProducts,
+    recommendedProducts: isLoaded ? products.recommended : null,
+    popularProducts: isLoaded ? products.popular : null,
+    orders,
+    periodHistory,
+    periodHistoryStorageKey: FIXTURE_PERIOD_HISTORY_STORAGE_KEY,
+    savedProductsLoading: isLoading,
+    recommendedProductsLoading: isLoading,
+    popularProductsLoading: isLoading,
+    ordersLoading: isLoading,
+    periodHistoryLoading: periodHistory === null,
+    savedProductsError: null,
+    recommendedProductsError: null,
+    popularProductsError: null,
+    ordersError: null,
+    savedProductsLoadedCount: isLoaded ? Math.min(fixture.savedProducts.length, maxSavedProducts) : 0,
+    status,
+    failedSources: [],
+    retry: () => {},
+    isDataReady: status !== 'loading',
+  }
+
+  return (
+    <DataContext.Provider value={value}>
+      {children}
+    </DataContext.Provider>
+  )
+}
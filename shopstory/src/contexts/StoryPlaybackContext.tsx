@@ -0,0 +1,55 @@
+import React, { createContext, useContext, useEffect, useId, useMemo } from 'react'
+
+export interface StoryResumeOffer {
+  // Title of the story the user was last watching
+  storyTitle: string
+  onContinue: () => void
+  onStartOver: () => void
+}
+
+interface StoryPlaybackContextType {
+  setHold: (holderId: string, isHeld: boolean) => void
+  resume: StoryResumeOffer | null
+}
+
+const StoryPlaybackContext = createContext<StoryPlaybackContextType | null>(null)
+
+export function StoryPlaybackProvider({
+  setHold,
+  resume,
+  children,
+}: StoryPlaybackContextType & { children: React.ReactNode }) {
+  const value = useMemo(() => ({ setHold, resume }), [setHold, resume])
+
+  return (
+    <StoryPlaybackContext.Provider value={value}>
+      {children}
+    </StoryPlaybackContext.Provider>
+  )
+}
+
+/**
+ * Pause the story's auto-advance timer while `isHeld` is true, e.g. while a
+ * screen is still waiting on its analysis. The hold is released automatically
+ * when the screen unmounts. Outside a StoryView this does nothing.
+ */
+export function useStoryHold(isHeld: boolean) {
+  const context = useContext(StoryPlaybackContext)
+  const holderId = useId()
+
+  useEffect(() => {
+    if (!context) {
+      return undefined
+    }
+    context.setHold(holderId, isHeld)
+    return () => context.setHold(holderId, false)
+  }, [context, holderId, isHeld])
+}
+
+/**
+ * The "continue where you left off" offer from a previous session, or null when
+ * there is nothing to resume. The title screen shows it.
+ */
+export function useStoryResume() {
+  return useContext(StoryPlaybackContext)?.resume ?? null
+}
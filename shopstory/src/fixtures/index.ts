@@ -0,0 +1,98 @@
+import {Order, Product} from '@shopify/shop-minis-react'
+import minimalist from './personas/minimalist.json'
+import maximalist from './personas/maximalist.json'
+import ecoShopper from './personas/eco-shopper.json'
+import singleShop from './personas/single-shop.json'
+import {getQueryParam} from '../stories/storyLinks'
+
+/**
+ * Canned shoppers for working on screens without a Shop account full of saved items.
+ * Each persona is a JSON file in ./personas with the same products and orders the
+ * SDK hooks would return, except that products carry a `color` instead of an image
+ * URL; it's drawn as a swatch so everything works offline.
+ *
+ * Pick one by setting VITE_DATA_FIXTURE in .env to its name, e.g. eco-shopper, or in a
+ * dev build with the fixture query param, which wins over the env var.
+ */
+
+export const FIXTURE_PERSONAS = {
+  'minimalist': minimalist,
+  'maximalist': maximalist,
+  'eco-shopper': ecoShopper,
+  'single-shop': singleShop,
+}
+
+export type FixturePersonaId = keyof typeof FIXTURE_PERSONAS
+
+const FIXTURE_PARAM = 'fixture'
+
+// Product fields as the SDK names them, plus the swatch colour standing in for its image
+type FixtureProduct = {
+  id: string
+  title: string
+  color: string
+  [field: string]: unknown
+}
+
+export type FixtureData = {
+  name: string
+  description: string
+  savedProducts: Product[]
+  recommendedProducts: Product[]
+  popularProducts: Product[]
+  // The SDK's orders, plus the date they were placed (see StoryOrder)
+  orders: Order[]
+}
+
+const isFixturePersonaId = (value: string): value is FixturePersonaId => value in FIXTURE_PERSONAS
+
+// A flat square of the product's colour, standing in for a product photo
+const swatchUrl = (color: string) =>
+  `data:image/svg+xml;utf8,${encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="300" height="300"><rect width="300" height="300" fill="${color}"/></svg>`
+  )}`
+
+function toProduct({color, ...product}: FixtureProduct): Product {
+  return {
+    ...product,
+    featuredImage: {url: swatchUrl(color), altText: product.title},
+  } as unknown as Product
+}
+
+export function loadFixturePersona(id: FixturePersonaId): FixtureData {
+  const persona = FIXTURE_PERSONAS[id]
+  const savedProducts = persona.savedProducts.map(toProduct)
+  const productsById = new Map(savedProducts.map(product => [product.id, product]))
+
+  return {
+    name: persona.name,
+    description: persona.description,
+    savedProducts,
+    recommendedProducts: persona.recommendedProducts.map(toProduct),
+    popularProducts: persona.popularProducts.map(toProduct),
+    // Line items name saved products by id, and get the product itself like the SDK's do
+    orders: persona.orders.map(({lineItems, ...order}) => ({
+      ...order,
+      lineItems: lineItems.map(({productId, ...item}) => ({...item, product: productsById.get(productId) ?? null})),
+    }) as unknown as Order),
+  }
+}
+
+/**
+ * The persona to run with, or null for live data. An unknown name is reported and ignored.
+ */
+export function getFixturePersonaId(search: string = window.location.search): FixturePersonaId | null {
+  // Only dev builds read the URL, so a shared link can't swap a real user's data for fixtures
+  const requested = (import.meta.env.DEV ? getQueryParam(search, FIXTURE_PARAM) : null) ??
+    (import.meta.env.VITE_DATA_FIXTURE ?? '')
+  if (!requested) {
+    return null
+  }
+  if (!isFixturePersonaId(requested)) {
+    console.warn(
+      `[Fixtures] Unknown persona "${requested}", expected one of ${Object.keys(FIXTURE_PERSONAS).join(', ')}. Using live data.`
+    )
+    return null
+  }
+  return requested
+}
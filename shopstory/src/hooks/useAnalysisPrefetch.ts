@@ -0,0 +1,44 @@
+import {useEffect} from 'react'
+import {Screen} from '../components/StoryView'
+import {getScreenRegistration} from '../components/screens'
+import {usePreloadedData} from '../contexts/DataContext'
+import {prefetchScreenAnalysis} from '../services/analysisScheduler'
+import {geminiService} from '../services/gemini'
+
+/**
+ * Kick off the Gemini analyses for the given upcoming screens in the background,
+ * as soon as the products each one reads have loaded. The scheduler caps how many
+ * run at once and skips anything already started, so this is safe to call on every
+ * navigation.
+ *
+ * In batched mode it first starts the one request all the analyses answer from, and
+ * waits until every source has settled so that request sees all the products.
+ */
+export function useAnalysisPrefetch(upcomingScreens: Screen[]) {
+  const {period, savedProducts, recommendedProducts, savedProductsLoading, recommendedProductsLoading, isDataReady} = usePreloadedData()
+
+  useEffect(() => {
+    const sources = {
+      savedProducts: savedProductsLoading ? null : savedProducts,
+      recommendedProducts: recommendedProductsLoading ? null : recommendedProducts,
+    }
+
+    if (geminiService.isBatched) {
+      if (!isDataReady) {
+        return undefined
+      }
+      geminiService.startStoryAnalysis(sources.savedProducts ?? [], sources.recommendedProducts ?? [], period)
+    }
+
+    upcomingScreens.forEach(screen => {
+      const analysis = getScreenRegistration(screen.type)?.analysis
+      const products = analysis && sources[analysis.source]
+      if (!analysis || !products || products.length === 0) {
+        return
+      }
+      // Same slice the screen takes, so the screen finds the prefetched result
+      prefetchScreenAnalysis(analysis, products.slice(0, analysis.productLimit), period)
+    })
+    return undefined
+  }, [upcomingScreens, period, savedProducts, recommendedProducts, savedProductsLoading, recommendedProductsLoading, isDataReady])
+}
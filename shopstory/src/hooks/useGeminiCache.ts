@@ -0,0 +1,12 @@
+import {useAsyncStorage} from '@shopify/shop-minis-react'
+import {geminiCache} from '../services/geminiCache'
+
+/**
+ * Back the Gemini cache (see geminiCache.ts) with the SDK's async storage. Call it
+ * above the screens: it attaches while rendering, since the screens start their
+ * analyses in effects, which run before their parents'.
+ */
+export function useGeminiCache() {
+  const storage = useAsyncStorage()
+  geminiCache.attach(storage)
+}
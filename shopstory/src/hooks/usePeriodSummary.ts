@@ -0,0 +1,95 @@
+import {useEffect, useMemo, useRef, useSyncExternalStore} from 'react'
+import {useAsyncStorage} from '@shopify/shop-minis-react'
+import {getStoredAnalysisResult, ScreenEligibilityData} from '../components/screens/registry'
+import {usePreloadedData} from '../contexts/DataContext'
+import {analysisStore} from '../services/analysisStore'
+import {AestheticsAnalysis, CarbonFootprintAnalysis, SmallBusinessAnalysis} from '../services/gemini'
+import {
+  buildPeriodSummary,
+  mergePeriodSummary,
+  PeriodSummary,
+  PeriodSummaryAnalyses,
+} from '../services/periodSummary'
+
+// Stored results are the same objects until replaced, so they're safe as snapshots
+const useStoredResult = <T>(type: string, data: ScreenEligibilityData | null) =>
+  useSyncExternalStore(analysisStore.subscribe, () => (data ? getStoredAnalysisResult<T>(type, data) : undefined))
+
+/**
+ * Summary of the period the story is recapping, built from the preloaded data and
+ * whichever analyses have finished so far. Null while the data is still loading.
+ */
+export function useCurrentPeriodSummary(): PeriodSummary | null {
+  const {
+    period,
+    savedProducts,
+    recommendedProducts,
+    popularProducts,
+    orders,
+    periodHistory,
+    savedProductsLoading,
+    ordersLoading,
+  } = usePreloadedData()
+
+  const data: ScreenEligibilityData | null = savedProductsLoading || ordersLoading
+    ? null
+    : {
+      period,
+      savedProducts: savedProducts ?? [],
+      recommendedProducts: recommendedProducts ?? [],
+      popularProducts: popularProducts ?? [],
+      orders: orders ?? [],
+      periodHistory: periodHistory ?? [],
+    }
+
+  const aesthetics = useStoredResult<AestheticsAnalysis>('aesthetics', data)
+  const palette = useStoredResult<PeriodSummaryAnalyses['palette']>('palette', data)
+  const carbonFootprint = useStoredResult<CarbonFootprintAnalysis>('carbonFootprint', data)
+  const smallBusiness = useStoredResult<SmallBusinessAnalysis>('smallBusiness', data)
+
+  const isLoaded = !!data
+  return useMemo(
+    () => isLoaded
+      ? buildPeriodSummary(
+        period,
+        {savedProducts: savedProducts ?? [], orders: orders ?? []},
+        {aesthetics, palette, carbonFootprint, smallBusiness}
+      )
+      : null,
+    [isLoaded, period, savedProducts, orders, aesthetics, palette, carbonFootprint, smallBusiness]
+  )
+}
+
+/**
+ * Keep the stored summary of the current period up to date as its analyses come in,
+ * so a later session can compare against it. All time isn't stored: there's no
+ * period before it to compare, and nothing after it would look it up. Nor is anything
+ * when the data couldn't be narrowed to the period, as it wouldn't be that period's.
+ */
+export function usePeriodSummaryRecorder() {
+  const {period, canChoosePeriod, periodHistory, periodHistoryStorageKey} = usePreloadedData()
+  const summary = useCurrentPeriodSummary()
+  const storage = useAsyncStorage()
+  // The storage helpers aren't guaranteed to be stable between renders
+  const storageRef = useRef(storage)
+  storageRef.current = storage
+  // What this session has written so far, so switching periods doesn't lose the last one
+  const historyRef = useRef<PeriodSummary[] | null>(null)
+
+  useEffect(() => {
+    if (!summary || !periodHistory || !canChoosePeriod || period.preset === 'allTime') {
+      return undefined
+    }
+    if (summary.savedProductCount === 0 && summary.orderCount === 0) {
+      return undefined
+    }
+    const history = mergePeriodSummary(historyRef.current ?? periodHistory, summary)
+    historyRef.current = history
+    storageRef.current
+      .setItem({key: periodHistoryStorageKey, value: JSON.stringify(history)})
+      .catch((error: unknown) => {
+        console.error('[PeriodSummary] Failed to save period summary:', error)
+      })
+    return undefined
+  }, [summary, periodHistory, periodHistoryStorageKey, canChoosePeriod, period])
+}
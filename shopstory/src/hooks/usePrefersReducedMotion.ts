@@ -0,0 +1,25 @@
+import {useEffect, useState} from 'react'
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)'
+
+/**
+ * Tracks the user's "reduce motion" accessibility setting, updating if it changes while the mini is open.
+ */
+export function usePrefersReducedMotion() {
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(
+    () => typeof window.matchMedia === 'function' && window.matchMedia(REDUCED_MOTION_QUERY).matches
+  )
+
+  useEffect(() => {
+    if (typeof window.matchMedia !== 'function') {
+      return undefined
+    }
+    const query = window.matchMedia(REDUCED_MOTION_QUERY)
+    const handleChange = () => setPrefersReducedMotion(query.matches)
+    handleChange()
+    query.addEventListener('change', handleChange)
+    return () => query.removeEventListener('change', handleChange)
+  }, [])
+
+  return prefersReducedMotion
+}
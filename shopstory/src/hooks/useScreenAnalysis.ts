@@ -0,0 +1,54 @@
+import {useCallback, useEffect, useRef, useSyncExternalStore} from 'react'
+import {useStoryPeriod} from '../contexts/DataContext'
+import {analysisKey, analysisStore} from '../services/analysisStore'
+import {analysisScheduler, runScreenAnalysis, ScreenAnalysis} from '../services/analysisScheduler'
+import {StoryProduct} from '../services/products'
+
+/**
+ * Read a screen's analysis from the shared store, starting it if nobody has yet.
+ * Pass null for products while they're still loading. A stored failure is not
+ * retried automatically; call `retry` to invalidate it and run it again.
+ * An analysis this screen started is cancelled if it unmounts first (see AnalysisScheduler.hold).
+ * `errorKind` says why Gemini's answer wasn't used, whether that left an error or fallback data.
+ */
+export function useScreenAnalysis<T>(analysis: ScreenAnalysis<T>, products: StoryProduct[] | null) {
+  const {period} = useStoryPeriod()
+  const key = products && products.length > 0 ? analysisKey(analysis.type, products, period) : null
+  // The products array is re-sliced on every render; the key is what identifies the input
+  const productsRef = useRef(products)
+  productsRef.current = products
+  const periodRef = useRef(period)
+  periodRef.current = period
+
+  const entry = useSyncExternalStore(
+    analysisStore.subscribe,
+    () => (key ? analysisStore.get<T>(key) : undefined)
+  )
+
+  useEffect(() => {
+    if (!key || !productsRef.current) {
+      return undefined
+    }
+    if (!analysisStore.get(key)) {
+      runScreenAnalysis(analysis, productsRef.current, periodRef.current)
+    }
+    return analysisScheduler.hold(key)
+  }, [key, analysis])
+
+  const retry = useCallback(() => {
+    if (!key || !productsRef.current) {
+      return
+    }
+    analysisStore.invalidate(key)
+    runScreenAnalysis(analysis, productsRef.current, periodRef.current)
+  }, [key, analysis])
+
+  return {
+    data: entry?.status === 'success' ? entry.data : null,
+    error: entry?.status === 'error' ? entry.error : null,
+    errorKind: entry && entry.status !== 'loading' ? entry.errorKind : undefined,
+    isAnalyzing: entry?.status === 'loading',
+    hasStarted: !!entry,
+    retry,
+  }
+}
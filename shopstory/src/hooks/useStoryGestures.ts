@@ -0,0 +1,231 @@
+import React, {useEffect, useRef} from 'react'
+
+// Pressing longer than this pauses the story instead of counting as a tap
+const HOLD_DELAY_MS = 250
+// Minimum travel before a drag counts as a swipe
+const SWIPE_DISTANCE_PX = 50
+// Anything shorter than this is still a tap
+const TAP_SLOP_PX = 10
+// Browsers replay touches as mouse events; ignore mouse input for this long after a touch
+const EMULATED_MOUSE_WINDOW_MS = 800
+
+// Elements the gesture layer should leave alone. Screens can also opt parts of
+// themselves out with data-story-gestures="none" (no taps, holds or swipes) or
+// data-story-gestures="no-swipe" (taps and holds still work).
+const INTERACTIVE_SELECTOR = 'button, a, input, select, textarea, [role="button"], [data-story-gestures="none"]'
+const NO_SWIPE_SELECTOR = '[data-story-gestures="no-swipe"]'
+
+type StoryGestureHandlers = {
+  onPreviousScreen: () => void
+  onNextScreen: () => void
+  onPreviousStory: () => void
+  onNextStory: () => void
+  onExit: () => void
+  onHoldChange: (isHolding: boolean) => void
+}
+
+type Gesture = {
+  startX: number
+  startY: number
+  lastX: number
+  lastY: number
+  target: HTMLElement
+  holdTimer: ReturnType<typeof setTimeout> | null
+  isHolding: boolean
+}
+
+// Walk up from the touched element and report whether anything between it and
+// the gesture layer is scrolled, so a downward drag scrolls instead of exiting.
+const isInsideScrolledContent = (target: HTMLElement, container: HTMLElement) => {
+  let element: HTMLElement | null = target
+  while (element && element !== container) {
+    if (element.scrollTop > 0) {
+      return true
+    }
+    element = element.parentElement
+  }
+  return false
+}
+
+/**
+ * Shared gesture layer for StoryView.
+ * Left/right half taps move between screens, press-and-hold pauses, horizontal
+ * swipes move between stories and a downward swipe exits. Handles touch, mouse
+ * and arrow keys, and returns props to spread onto the story container.
+ * Pass enabled=false while the story isn't on screen so arrow keys are ignored.
+ */
+export function useStoryGestures(handlers: StoryGestureHandlers, enabled = true) {
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  const gestureRef = useRef<Gesture | null>(null)
+  const lastTouchAtRef = useRef(0)
+
+  // Make sure a pending hold timer doesn't fire after unmount
+  useEffect(() => () => {
+    const gesture = gestureRef.current
+    if (gesture?.holdTimer) {
+      clearTimeout(gesture.holdTimer)
+    }
+  }, [])
+
+  // Arrow keys for previewing on desktop: left/right between screens, up/down between stories
+  useEffect(() => {
+    if (!enabled) {
+      return undefined
+    }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select')) {
+        return
+      }
+      const keyHandlers: Record<string, () => void> = {
+        ArrowLeft: handlersRef.current.onPreviousScreen,
+        ArrowRight: handlersRef.current.onNextScreen,
+        ArrowUp: handlersRef.current.onPreviousStory,
+        ArrowDown: handlersRef.current.onNextStory,
+        Escape: handlersRef.current.onExit,
+      }
+      const handler = keyHandlers[e.key]
+      if (handler) {
+        e.preventDefault()
+        handler()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [enabled])
+
+  const start = (x: number, y: number, target: EventTarget) => {
+    if (!(target instanceof HTMLElement) || target.closest(INTERACTIVE_SELECTOR)) {
+      gestureRef.current = null
+      return
+    }
+
+    const gesture: Gesture = {startX: x, startY: y, lastX: x, lastY: y, target, holdTimer: null, isHolding: false}
+    gesture.holdTimer = setTimeout(() => {
+      gesture.holdTimer = null
+      gesture.isHolding = true
+      handlersRef.current.onHoldChange(true)
+    }, HOLD_DELAY_MS)
+    gestureRef.current = gesture
+  }
+
+  const move = (x: number, y: number) => {
+    const gesture = gestureRef.current
+    if (!gesture) {
+      return
+    }
+    gesture.lastX = x
+    gesture.lastY = y
+    // Once the finger travels it's a swipe or a scroll, not a hold
+    if (gesture.holdTimer && Math.hypot(x - gesture.startX, y - gesture.startY) > TAP_SLOP_PX) {
+      clearTimeout(gesture.holdTimer)
+      gesture.holdTimer = null
+    }
+  }
+
+  const end = (container: HTMLElement) => {
+    const gesture = gestureRef.current
+    gestureRef.current = null
+    if (!gesture) {
+      return
+    }
+    if (gesture.holdTimer) {
+      clearTimeout(gesture.holdTimer)
+    }
+    if (gesture.isHolding) {
+      handlersRef.current.onHoldChange(false)
+      return
+    }
+
+    const deltaX = gesture.lastX - gesture.startX
+    const deltaY = gesture.lastY - gesture.startY
+    const isHorizontal = Math.abs(deltaX) > Math.abs(deltaY)
+
+    if (isHorizontal && Math.abs(deltaX) >= SWIPE_DISTANCE_PX) {
+      if (gesture.target.closest(NO_SWIPE_SELECTOR)) {
+        return
+      }
+      if (deltaX < 0) {
+        handlersRef.current.onNextStory()
+      } else {
+        handlersRef.current.onPreviousStory()
+      }
+      return
+    }
+
+    if (!isHorizontal && deltaY >= SWIPE_DISTANCE_PX) {
+      if (!isInsideScrolledContent(gesture.target, container)) {
+        handlersRef.current.onExit()
+      }
+      return
+    }
+
+    if (Math.hypot(deltaX, deltaY) > TAP_SLOP_PX) {
+      // Probably a scroll
+      return
+    }
+
+    const rect = container.getBoundingClientRect()
+    // If tapped on left half, go back; if tapped on right half, go forward
+    if (gesture.startX - rect.left < rect.width / 2) {
+      handlersRef.current.onPreviousScreen()
+    } else {
+      handlersRef.current.onNextScreen()
+    }
+  }
+
+  const cancel = () => {
+    const gesture = gestureRef.current
+    gestureRef.current = null
+    if (gesture?.holdTimer) {
+      clearTimeout(gesture.holdTimer)
+    }
+    if (gesture?.isHolding) {
+      handlersRef.current.onHoldChange(false)
+    }
+  }
+
+  const isEmulatedMouse = () => Date.now() - lastTouchAtRef.current < EMULATED_MOUSE_WINDOW_MS
+
+  return {
+    onTouchStart: (e: React.TouchEvent<HTMLElement>) => {
+      lastTouchAtRef.current = Date.now()
+      if (e.touches.length > 1) {
+        cancel()
+        return
+      }
+      start(e.touches[0].clientX, e.touches[0].clientY, e.target)
+    },
+    onTouchMove: (e: React.TouchEvent<HTMLElement>) => {
+      move(e.touches[0].clientX, e.touches[0].clientY)
+    },
+    onTouchEnd: (e: React.TouchEvent<HTMLElement>) => {
+      lastTouchAtRef.current = Date.now()
+      end(e.currentTarget)
+    },
+    onTouchCancel: cancel,
+    onMouseDown: (e: React.MouseEvent<HTMLElement>) => {
+      if (e.button !== 0 || isEmulatedMouse()) {
+        return
+      }
+      start(e.clientX, e.clientY, e.target)
+    },
+    onMouseMove: (e: React.MouseEvent<HTMLElement>) => {
+      if (!isEmulatedMouse()) {
+        move(e.clientX, e.clientY)
+      }
+    },
+    onMouseUp: (e: React.MouseEvent<HTMLElement>) => {
+      if (!isEmulatedMouse()) {
+        end(e.currentTarget)
+      }
+    },
+    onMouseLeave: () => {
+      if (!isEmulatedMouse()) {
+        cancel()
+      }
+    },
+  }
+}
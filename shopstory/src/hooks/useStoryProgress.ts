@@ -0,0 +1,131 @@
+import {useCallback, useEffect, useRef, useState} from 'react'
+import {useAsyncStorage} from '@shopify/shop-minis-react'
+
+const PROGRESS_STORAGE_KEY = 'shopstory:progress'
+const PROGRESS_VERSION = 1
+// If more than this share of the saved products has come or gone since the progress
+// was stored, the story is about different products and we start fresh
+const MAX_PRODUCT_CHURN = 0.25
+
+export type StoryProgress = {
+  version: number
+  storyId: string
+  screenId: string
+  seenStoryIds: string[]
+  productIds: string[]
+  savedAt: number
+}
+
+export type StoryProgressUpdate = Pick<StoryProgress, 'storyId' | 'screenId' | 'seenStoryIds'>
+
+const isStoryProgress = (value: unknown): value is StoryProgress => {
+  const progress = value as StoryProgress | null
+  return (
+    typeof progress === 'object' &&
+    progress !== null &&
+    progress.version === PROGRESS_VERSION &&
+    typeof progress.storyId === 'string' &&
+    typeof progress.screenId === 'string' &&
+    Array.isArray(progress.seenStoryIds) &&
+    Array.isArray(progress.productIds)
+  )
+}
+
+/**
+ * Whether the saved product set differs enough that stored progress no longer applies.
+ * Compares the share of ids that were added or removed against all ids seen in either set.
+ */
+export function haveProductsMateriallyChanged(previousIds: string[], currentIds: string[]) {
+  const previous = new Set(previousIds)
+  const current = new Set(currentIds)
+  const union = new Set([...previous, ...current])
+  if (union.size === 0) {
+    return false
+  }
+  const changed = [...union].filter(id => previous.has(id) !== current.has(id)).length
+  return changed / union.size > MAX_PRODUCT_CHURN
+}
+
+/**
+ * Persists where the user is in their stories so reopening the mini can pick up
+ * where they left off. Pass the current saved product ids, or null while they
+ * are still loading; stored progress is discarded if those products have
+ * materially changed. `isLoaded` turns true once both storage and products are in.
+ */
+export function useStoryProgress(productIds: string[] | null) {
+  const storage = useAsyncStorage()
+  // The storage helpers aren't guaranteed to be stable between renders
+  const storageRef = useRef(storage)
+  storageRef.current = storage
+
+  const [storedProgress, setStoredProgress] = useState<StoryProgress | null>(null)
+  const [isStorageLoaded, setIsStorageLoaded] = useState(false)
+  const [isChecked, setIsChecked] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      try {
+        const raw = await storageRef.current.getItem({key: PROGRESS_STORAGE_KEY})
+        const parsed: unknown = raw ? JSON.parse(raw) : null
+        if (!cancelled && isStoryProgress(parsed)) {
+          setStoredProgress(parsed)
+        }
+      } catch (error) {
+        console.error('[Progress] Failed to load saved progress:', error)
+      } finally {
+        if (!cancelled) {
+          setIsStorageLoaded(true)
+        }
+      }
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const clearProgress = useCallback(() => {
+    setStoredProgress(null)
+    storageRef.current.removeItem({key: PROGRESS_STORAGE_KEY}).catch((error: unknown) => {
+      console.error('[Progress] Failed to clear saved progress:', error)
+    })
+  }, [])
+
+  // Once we know both what was stored and what the user has saved now, drop stale progress
+  useEffect(() => {
+    if (!isStorageLoaded || productIds === null || isChecked) {
+      return undefined
+    }
+    if (storedProgress && haveProductsMateriallyChanged(storedProgress.productIds, productIds)) {
+      clearProgress()
+    }
+    setIsChecked(true)
+    return undefined
+  }, [isStorageLoaded, productIds, isChecked, storedProgress, clearProgress])
+
+  const saveProgress = useCallback((update: StoryProgressUpdate) => {
+    if (productIds === null) {
+      return
+    }
+    const progress: StoryProgress = {
+      ...update,
+      version: PROGRESS_VERSION,
+      productIds,
+      savedAt: Date.now(),
+    }
+    storageRef.current
+      .setItem({key: PROGRESS_STORAGE_KEY, value: JSON.stringify(progress)})
+      .catch((error: unknown) => {
+        console.error('[Progress] Failed to save progress:', error)
+      })
+  }, [productIds])
+
+  return {
+    // Only meaningful once isLoaded is true
+    progress: isChecked ? storedProgress : null,
+    isLoaded: isChecked,
+    saveProgress,
+    clearProgress,
+  }
+}
@@ -0,0 +1,46 @@
+import {useEffect, useRef} from 'react'
+
+type StoryTimerOptions = {
+  durationMs: number
+  // Untimed screens (e.g. share) never auto-advance
+  enabled: boolean
+  paused: boolean
+  // Changing this restarts the timer from zero, e.g. when the screen changes
+  resetKey: string
+  onComplete: () => void
+}
+
+/**
+ * Auto-advance timer for a single story screen.
+ * Tracks how much of the duration has already elapsed so that pausing and
+ * resuming picks up where it left off, matching the CSS progress animation
+ * which is paused and resumed alongside it.
+ */
+export function useStoryTimer({durationMs, enabled, paused, resetKey, onComplete}: StoryTimerOptions) {
+  const elapsedRef = useRef(0)
+  const onCompleteRef = useRef(onComplete)
+  onCompleteRef.current = onComplete
+
+  // Start from zero whenever a new screen comes up
+  useEffect(() => {
+    elapsedRef.current = 0
+  }, [resetKey])
+
+  useEffect(() => {
+    if (!enabled || paused) {
+      return undefined
+    }
+
+    const startedAt = Date.now()
+    const remaining = Math.max(0, durationMs - elapsedRef.current)
+    const timer = setTimeout(() => {
+      elapsedRef.current = durationMs
+      onCompleteRef.current()
+    }, remaining)
+
+    return () => {
+      clearTimeout(timer)
+      elapsedRef.current = Math.min(durationMs, elapsedRef.current + Date.now() - startedAt)
+    }
+  }, [enabled, paused, durationMs, resetKey])
+}
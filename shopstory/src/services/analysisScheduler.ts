@@ -0,0 +1,219 @@
+import {GeminiResponse} from './gemini'
+import {AnalysisEntry, analysisKey, analysisStore} from './analysisStore'
+import {StoryPeriod} from './period'
+import {StoryProduct} from './products'
+
+/**
+ * Background scheduler for the Gemini analyses behind the story screens.
+ *
+ * Screens run their analysis through useScreenAnalysis() when they mount, and StoryView calls
+ * prefetchScreenAnalysis() for the screens coming up next so their results are
+ * usually ready on arrival. Results land in the analysis store. Work is shared by
+ * key: a screen that mounts while its prefetch is queued jumps it to the front,
+ * and one that mounts while it's running just waits for it.
+ *
+ * Mounted screens hold the analysis they show (see hold()). A run a screen started
+ * itself is cancelled once no screen holds it, since nothing would read its result
+ * before it's asked for again; a prefetch isn't, as the store keeps its result for
+ * the screen still to come.
+ */
+
+// Prefetches beyond this wait their turn; a screen's own request never waits
+const MAX_CONCURRENT_ANALYSES = 2
+
+/**
+ * What a screen needs to have its analysis run ahead of time: which preloaded
+ * products it reads, how many of them, and how to turn them into a Gemini call.
+ */
+export type ScreenAnalysis<T = unknown> = {
+  type: string
+  source: 'savedProducts' | 'recommendedProducts'
+  // Leave out to read every preloaded product
+  productLimit?: number
+  // Shown when Gemini answers without a result or an error message of its own
+  failureMessage: string
+  // Gets the period too, so the prompt can frame its answer as a recap of it,
+  // and a signal to pass on to Gemini that aborts when the run is cancelled
+  analyze: (products: StoryProduct[], period: StoryPeriod, signal: AbortSignal) => Promise<GeminiResponse<T>>
+}
+
+type AnalysisTask<T> = (signal: AbortSignal) => Promise<GeminiResponse<T>>
+
+type InFlightAnalysis = {
+  // The store entry this run owns; if it's been replaced or invalidated the result is dropped
+  entry: AnalysisEntry
+  // Unset while the run waits in the queue
+  promise?: Promise<GeminiResponse<unknown>>
+  controller: AbortController
+  // Prefetches are kept for the screen still to come, so they're never cancelled
+  claimed: boolean
+}
+
+type QueuedAnalysis = {
+  key: string
+  start: () => Promise<GeminiResponse<unknown>>
+}
+
+class AnalysisScheduler {
+  private inFlight = new Map<string, InFlightAnalysis>()
+  private queue: QueuedAnalysis[] = []
+  private running = 0
+  // How many mounted screens hold each key
+  private holders = new Map<string, number>()
+
+  constructor(private maxConcurrent: number) {}
+
+  /**
+   * Queue an analysis to run when there's capacity. Does nothing if the store
+   * already has it, whether loading, finished or failed. A failed prefetch stays
+   * stored, and its screen shows that failure rather than running it again (see useScreenAnalysis).
+   */
+  prefetch<T>(key: string, task: AnalysisTask<T>, failureMessage: string) {
+    if (analysisStore.get(key)) {
+      return
+    }
+    this.queue.push({key, start: this.track(key, task, failureMessage, true)})
+    this.pump()
+  }
+
+  /**
+   * Run an analysis now, reusing a stored result or a queued or running one with the same key.
+   */
+  async run<T>(key: string, task: AnalysisTask<T>, failureMessage: string): Promise<GeminiResponse<T>> {
+    const entry = analysisStore.get<T>(key)
+    if (entry?.status === 'success') {
+      return {success: true, data: entry.data}
+    }
+
+    const inFlight = this.inFlight.get(key)
+    if (inFlight && inFlight.entry === entry) {
+      // Promote it if it's still waiting behind other prefetches
+      const queued = this.queue.find(item => item.key === key)
+      if (queued) {
+        this.queue = this.queue.filter(item => item !== queued)
+        return queued.start() as Promise<GeminiResponse<T>>
+      }
+      return inFlight.promise as Promise<GeminiResponse<T>>
+    }
+
+    return this.track(key, task, failureMessage, false)()
+  }
+
+  /**
+   * Note that a mounted screen is showing this analysis. Returns the release, to call on
+   * unmount; when the last holder releases a run that isn't a prefetch, it's cancelled and
+   * its loading entry dropped, so the next screen to want it starts it over.
+   * The cancel waits a microtask, so a screen that holds it again straight away, like
+   * StrictMode re-running effects or a remount under a new parent, keeps the run going.
+   */
+  hold(key: string) {
+    this.holders.set(key, (this.holders.get(key) ?? 0) + 1)
+    return () => {
+      const remaining = (this.holders.get(key) ?? 1) - 1
+      if (remaining > 0) {
+        this.holders.set(key, remaining)
+        return
+      }
+      this.holders.delete(key)
+      queueMicrotask(() => this.cancelUnheld(key))
+    }
+  }
+
+  // Cancel a screen's own run of this analysis if still nothing holds it
+  private cancelUnheld(key: string) {
+    if (this.holders.has(key)) {
+      return
+    }
+    const inFlight = this.inFlight.get(key)
+    if (!inFlight || inFlight.claimed) {
+      return
+    }
+    inFlight.controller.abort()
+    this.inFlight.delete(key)
+    if (analysisStore.get(key) === inFlight.entry) {
+      analysisStore.invalidate(key)
+    }
+  }
+
+  /**
+   * Mark an analysis as loading and in flight, returning the function that runs it.
+   */
+  private track<T>(key: string, task: AnalysisTask<T>, failureMessage: string, claimed: boolean) {
+    const entry: AnalysisEntry = {status: 'loading'}
+    analysisStore.set(key, entry)
+
+    const controller = new AbortController()
+    const inFlight: InFlightAnalysis = {entry, controller, claimed}
+    this.inFlight.set(key, inFlight)
+    return () => {
+      const promise = this.execute(key, entry, () => task(controller.signal), failureMessage)
+      inFlight.promise = promise
+      return promise
+    }
+  }
+
+  private async execute<T>(
+    key: string,
+    entry: AnalysisEntry,
+    task: () => Promise<GeminiResponse<T>>,
+    failureMessage: string,
+  ): Promise<GeminiResponse<T>> {
+    this.running += 1
+    let result: GeminiResponse<T>
+    try {
+      result = await task()
+    } catch (error) {
+      console.error(`[Scheduler] ${key} failed:`, error)
+      result = {success: false, error: 'An unexpected error occurred during analysis'}
+    } finally {
+      this.running -= 1
+      if (this.inFlight.get(key)?.entry === entry) {
+        this.inFlight.delete(key)
+      }
+      this.pump()
+    }
+
+    // Only record the result if nobody invalidated or restarted this analysis meanwhile
+    if (analysisStore.get(key) === entry) {
+      const errorKind = result.errorKind ? {errorKind: result.errorKind} : {}
+      analysisStore.set(
+        key,
+        result.success && result.data !== undefined
+          ? {status: 'success', data: result.data, ...errorKind}
+          : {status: 'error', error: result.error || failureMessage, ...errorKind}
+      )
+    }
+    return result
+  }
+
+  private pump() {
+    while (this.running < this.maxConcurrent && this.queue.length > 0) {
+      const next = this.queue.shift()!
+      next.start()
+    }
+  }
+}
+
+export const analysisScheduler = new AnalysisScheduler(MAX_CONCURRENT_ANALYSES)
+
+/**
+ * Run a screen's analysis for the given products, sharing any prefetch already under way.
+ */
+export function runScreenAnalysis<T>(analysis: ScreenAnalysis<T>, products: StoryProduct[], period: StoryPeriod) {
+  return analysisScheduler.run(
+    analysisKey(analysis.type, products, period),
+    signal => analysis.analyze(products, period, signal),
+    analysis.failureMessage,
+  )
+}
+
+/**
+ * Start a screen's analysis in the background ahead of the user reaching it.
+ */
+export function prefetchScreenAnalysis(analysis: ScreenAnalysis<unknown>, products: StoryProduct[], period: StoryPeriod) {
+  analysisScheduler.prefetch(
+    analysisKey(analysis.type, products, period),
+    signal => analysis.analyze(products, period, signal),
+    analysis.failureMessage,
+  )
+}
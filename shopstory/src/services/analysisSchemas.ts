@@ -0,0 +1,138 @@
+import {
+  AestheticsAnalysis,
+  CarbonFootprintAnalysis,
+  ColorPalette,
+  RecommendationsAnalysis,
+  SmallBusinessAnalysis,
+  StoryAnalysis,
+} from './gemini'
+import {array, boolean, hexColor, number, object, optional, refine, Schema, SchemaError, string} from './schema'
+
+/**
+ * What each GeminiService analysis asks Gemini for, and what it accepts back (see schema.ts).
+ * Beyond the shape, these fix up what the screens would otherwise render wrong:
+ * percentages that don't add up, colours that aren't colours, tallies that don't
+ * match the list they're counting.
+ */
+
+export const aestheticsSchema: Schema<AestheticsAnalysis> = refine(
+  object({
+    headline: string({description: 'Catchy, quirky headline for their current aesthetic vibe, max 7 words'}),
+    topAesthetics: array(
+      object({
+        name: string(),
+        // Aesthetics overlap, so these don't need to add up to 100
+        percentage: number({min: 0, max: 100, integer: true}),
+        description: string({description: '5-7 word description'}),
+        emoji: string(),
+      }),
+      {minItems: 1, maxItems: 3, dropInvalid: true}
+    ),
+    summary: string(),
+  }),
+  // The screen ranks them in the order given
+  analysis => ({...analysis, topAesthetics: [...analysis.topAesthetics].sort((a, b) => b.percentage - a.percentage)})
+)
+
+export const recommendationsSchema: Schema<RecommendationsAnalysis> = object({
+  headline: string({description: 'Catchy headline for their future style evolution'}),
+  futureSelfdescription: string({description: 'What their future self is like, 25 words max'}),
+})
+
+/**
+ * Scale the shares so they add up to exactly 100, putting any rounding left over on the biggest.
+ * Shares that are all zero become equal ones.
+ */
+function toHundredPercent<T extends {percentage: number}>(items: T[]): T[] {
+  const total = items.reduce((sum, item) => sum + item.percentage, 0)
+  const scaled = items.map(item => ({
+    ...item,
+    percentage: Math.round(total > 0 ? (item.percentage / total) * 100 : 100 / items.length),
+  }))
+  const largest = scaled.reduce((best, item, index) => (item.percentage > scaled[best].percentage ? index : best), 0)
+  scaled[largest].percentage += 100 - scaled.reduce((sum, item) => sum + item.percentage, 0)
+  return scaled
+}
+
+export const colorPaletteSchema: Schema<ColorPalette> = refine(
+  object({
+    colors: array(
+      object({
+        hex: hexColor(),
+        name: string(),
+        percentage: number({min: 0, max: 100}),
+        description: string({description: "The colour's role in the palette, max 7 words"}),
+      }),
+      {minItems: 1, maxItems: 6, dropInvalid: true, description: 'The 6 dominant colours, with percentages adding up to 100'}
+    ),
+    overallDescription: string(),
+    mood: string(),
+    style: string(),
+  }),
+  palette => ({...palette, colors: toHundredPercent(palette.colors)})
+)
+
+export const carbonFootprintSchema: Schema<CarbonFootprintAnalysis> = refine(
+  object({
+    analysis: string({description: 'One sentence on the carbon footprint'}),
+    totalEmissionsKgCO2: number({min: 0}),
+    averageEmissionsPerProduct: number({min: 0}),
+    lowestEmissionProducts: array(
+      object({
+        productId: string(),
+        productTitle: string(),
+        estimatedEmissionsKgCO2: number({min: 0}),
+        reasoning: string(),
+      }),
+      {maxItems: 3, dropInvalid: true, description: 'The 3 most eco-friendly products, lowest emissions first'}
+    ),
+    recommendations: array(string(), {maxItems: 4}),
+  }),
+  (analysis, path) => {
+    if (analysis.averageEmissionsPerProduct > analysis.totalEmissionsKgCO2) {
+      throw new SchemaError(path, 'has an average per product above the total')
+    }
+    return {
+      ...analysis,
+      lowestEmissionProducts: [...analysis.lowestEmissionProducts]
+        .sort((a, b) => a.estimatedEmissionsKgCO2 - b.estimatedEmissionsKgCO2),
+    }
+  }
+)
+
+export const smallBusinessSchema: Schema<SmallBusinessAnalysis> = refine(
+  object({
+    smallBusinesses: array(
+      object({
+        businessId: string(),
+        businessName: string(),
+        isSmallBusiness: boolean(),
+        // Read as a percentage when it's over 1, which Gemini sometimes slips into
+        confidence: refine(number({min: 0, max: 100}), confidence => (confidence > 1 ? confidence / 100 : confidence)),
+        reasoning: string(),
+        employeeEstimate: optional(number({min: 0, integer: true})),
+        businessType: optional(string()),
+      }),
+      {dropInvalid: true}
+    ),
+    totalBusinesses: number({min: 0, integer: true}),
+    smallBusinessCount: number({min: 0, integer: true}),
+    analysis: string(),
+    recommendations: array(string(), {maxItems: 3}),
+  }),
+  // Gemini's tallies don't always match its own list, and the list is what the screens show
+  analysis => ({
+    ...analysis,
+    totalBusinesses: analysis.smallBusinesses.length,
+    smallBusinessCount: analysis.smallBusinesses.filter(business => business.isSmallBusiness).length,
+  })
+)
+
+// Every analysis at once, for the batched mode. Recommendations are left out when there were no recommended products
+export const storyAnalysisSchema: Schema<StoryAnalysis> = object({
+  aesthetics: aestheticsSchema,
+  palette: colorPaletteSchema,
+  carbonFootprint: carbonFootprintSchema,
+  smallBusiness: smallBusinessSchema,
+  recommendations: optional(recommendationsSchema),
+})
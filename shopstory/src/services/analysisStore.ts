@@ -0,0 +1,79 @@
+import {GeminiErrorKind} from './gemini'
+import {periodKey, StoryPeriod} from './period'
+import {StoryProduct} from './products'
+
+/**
+ * Shared results for the Gemini analyses behind the story screens.
+ *
+ * Entries are keyed by analysis type, the period being recapped and a fingerprint
+ * of the products that went into it, so a screen that remounts (navigating back, or inside the ShareScreen
+ * preview) reads the result it already has instead of asking Gemini again. The
+ * analysis scheduler writes entries; screens read them through useScreenAnalysis.
+ * Nothing expires on its own — call invalidateAnalyses() to force a fresh run.
+ */
+
+// errorKind says why Gemini's answer wasn't used: on success, the data is a fallback
+export type AnalysisEntry<T = unknown> =
+  | {status: 'loading'}
+  | {status: 'success'; data: T; errorKind?: GeminiErrorKind}
+  | {status: 'error'; error: string; errorKind?: GeminiErrorKind}
+
+type Listener = () => void
+
+// Product ids in order; the screens slice the same preloaded list, so this is stable across remounts
+export const fingerprintProducts = (products: StoryProduct[]) => products.map(product => product.id).join(',')
+
+export const analysisKey = (type: string, products: StoryProduct[], period: StoryPeriod) =>
+  `${type}:${periodKey(period)}:${fingerprintProducts(products)}`
+
+class AnalysisStore {
+  private entries = new Map<string, AnalysisEntry>()
+  private listeners = new Set<Listener>()
+
+  get<T>(key: string): AnalysisEntry<T> | undefined {
+    return this.entries.get(key) as AnalysisEntry<T> | undefined
+  }
+
+  set(key: string, entry: AnalysisEntry) {
+    this.entries.set(key, entry)
+    this.notify()
+  }
+
+  /**
+   * Drop stored results so the next screen to ask runs the analysis again.
+   * Pass a type to only drop that analysis, or a full key for a single entry.
+   */
+  invalidate(typeOrKey?: string) {
+    let changed = false
+    for (const key of Array.from(this.entries.keys())) {
+      if (!typeOrKey || key === typeOrKey || key.startsWith(`${typeOrKey}:`)) {
+        this.entries.delete(key)
+        changed = true
+      }
+    }
+    if (changed) {
+      this.notify()
+    }
+  }
+
+  // Arrow function so it can be handed straight to useSyncExternalStore
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const analysisStore = new AnalysisStore()
+
+/**
+ * Forget stored analysis results, all of them or just one analysis type.
+ */
+export function invalidateAnalyses(type?: string) {
+  analysisStore.invalidate(type)
+}
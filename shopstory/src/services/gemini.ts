@@ -1,3 +1,16 @@
+import {
+  aestheticsSchema,
+  carbonFootprintSchema,
+  colorPaletteSchema,
+  recommendationsSchema,
+  smallBusinessSchema,
+  storyAnalysisSchema,
+} from './analysisSchemas'
+import {geminiCache, hashInput} from './geminiCache'
+import {ALL_TIME, periodKey, StoryPeriod} from './period'
+import {StoryProduct} from './products'
+import {Schema} from './schema'
+
 /**
  * Google Gemini API service - FIXED VERSION
  * Solves MAX_TOKENS issue by disabling thinking and increasing limits
@@ -5,12 +18,106 @@
  * API keys are now stored securely in Supabase
  */
 
+/**
+ * Why a Gemini call failed, so a screen can tell "the AI said no" from "you're offline".
+ * network: the request never got an answer; timeout: it ran out of LATENCY_BUDGET_MS;
+ * rateLimit: Gemini's quota is used up for now; server: the Edge Function or Gemini broke;
+ * safety: Gemini blocked the prompt or its answer; maxTokens: the answer was cut off;
+ * parse: the answer wasn't the JSON asked for; config: the app or function isn't set up;
+ * request: Gemini rejected the request itself; cancelled: the caller aborted it.
+ */
+export type GeminiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'rateLimit'
+  | 'server'
+  | 'safety'
+  | 'maxTokens'
+  | 'parse'
+  | 'config'
+  | 'request'
+  | 'cancelled'
+
 export interface GeminiResponse<T = any> {
   data?: T
   error?: string
+  // Set when the call failed; on a fallback result, it's why Gemini's answer wasn't used
+  errorKind?: GeminiErrorKind
   success: boolean
 }
 
+// Tries per call, the first included
+const MAX_ATTEMPTS = 3
+// Upper bound on the wait before the first retry; it doubles for each one after
+const RETRY_BASE_DELAY_MS = 1000
+// Longest a call may take, retries included, before the screen gives up and falls back
+const LATENCY_BUDGET_MS = 20000
+
+// Failures that might go away if asked again
+const RETRYABLE_ERRORS: GeminiErrorKind[] = ['network', 'rateLimit', 'server']
+
+/**
+ * The version of each analysis's prompt, part of its cache key (see geminiCache.ts).
+ * Bump one when its prompt or schema changes, so answers to the old one aren't served.
+ */
+const PROMPT_VERSIONS = {
+  recommendations: 1,
+  aesthetics: 1,
+  palette: 1,
+  carbonFootprint: 1,
+  smallBusiness: 1,
+  story: 1,
+}
+
+type AnalysisType = keyof typeof PROMPT_VERSIONS
+
+// With VITE_GEMINI_BATCHED set to true, every screen's analysis runs as one request (see startStoryAnalysis)
+const BATCHED_ANALYSIS = (import.meta.env.VITE_GEMINI_BATCHED ?? 'false') === 'true'
+// The batched answer covers five analyses, so it needs more room than the Edge Function's default of 2048
+const STORY_MAX_OUTPUT_TOKENS = 8192
+// Products sent in the batched request; the most any one screen's own analysis looks at
+const STORY_SAVED_PRODUCT_LIMIT = 20
+const STORY_RECOMMENDED_PRODUCT_LIMIT = 10
+
+const isRetryable = (kind?: GeminiErrorKind) => !!kind && RETRYABLE_ERRORS.includes(kind)
+
+const cancelled = (): GeminiResponse<never> => ({success: false, error: 'Cancelled', errorKind: 'cancelled'})
+
+// The two below are thenables for `await` rather than Promises built by hand, as not every
+// browser the mini is checked against has Promise
+
+// Resolves after the delay, or as soon as the signal aborts
+const wait = (ms: number, signal?: AbortSignal) => ({
+  then(resolve: () => void) {
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done)
+    function done() {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+  },
+})
+
+// Settles as the promise does, or resolves to undefined as soon as the signal aborts
+const unlessAborted = <T>(promise: Promise<T>, signal?: AbortSignal) => ({
+  then(resolve: (value: T | undefined) => void, reject: (reason: unknown) => void) {
+    const abort = () => resolve(undefined)
+    if (signal?.aborted) {
+      abort()
+      return
+    }
+    signal?.addEventListener('abort', abort)
+    promise
+      .then(resolve, reject)
+      .finally(() => signal?.removeEventListener('abort', abort))
+  },
+})
+
+// For errors the Edge Function didn't classify itself, like the gateway's own
+const classifyStatus = (status: number): GeminiErrorKind =>
+  status === 429 ? 'rateLimit' : status >= 500 ? 'server' : 'request'
+
 export interface CarbonFootprintAnalysis {
   totalEmissionsKgCO2: number
   averageEmissionsPerProduct: number
@@ -56,7 +163,33 @@ export interface RecommendationsAnalysis {
   futureSelfdescription: string
 }
 
+export interface ColorPalette {
+  colors: Array<{
+    hex: string
+    name: string
+    percentage: number
+    description: string
+  }>
+  overallDescription: string
+  mood: string
+  style: string
+}
+
+// Every screen's analysis from one batched request
+export interface StoryAnalysis {
+  aesthetics: AestheticsAnalysis
+  palette: ColorPalette
+  carbonFootprint: CarbonFootprintAnalysis
+  smallBusiness: SmallBusinessAnalysis
+  // Missing when there were no recommended products to look at
+  recommendations?: RecommendationsAnalysis
+}
+
 class GeminiService {
+  readonly isBatched = BATCHED_ANALYSIS
+  // The batched analysis for each period (by periodKey), and the products it was started with
+  private storyAnalyses = new Map<string, {inputKey: string; promise: Promise<GeminiResponse<StoryAnalysis>>}>()
+
   constructor() {
     console.log('[Gemini] Service initialized - using Supabase Edge Functions')
   }
@@ -64,10 +197,25 @@ class GeminiService {
   /**
    * Generic method to make API calls to Gemini via Supabase Edge Function
    * This solves CSP issues and keeps API keys secure
+   *
+   * With a schema, Gemini answers in JSON mode following it, and the reply is checked
+   * against it (see schema.ts) before it's returned; a reply that doesn't fit is an error.
+   * Without one, the data is Gemini's text as is.
+   *
+   * Network errors, rate limits and server errors are retried with jittered backoff,
+   * as long as the whole call stays within LATENCY_BUDGET_MS. A failed response says
+   * which kind of failure it was in errorKind.
+   *
+   * Aborting the signal stops the request and any retries, and the call resolves as cancelled.
+   *
+   * maxOutputTokens raises or lowers the Edge Function's limit on the reply's length.
    */
   async makeAPICall<T>(
     prompt: string,
-    modelName: string = 'gemini-2.5-flash'
+    modelName: string = 'gemini-2.5-flash',
+    schema?: Schema<T>,
+    signal?: AbortSignal,
+    maxOutputTokens?: number
   ): Promise<GeminiResponse<T>> {
     const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
     const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -76,54 +224,236 @@ class GeminiService {
       return {
         success: false,
         error: 'VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY must be configured in .env',
+        errorKind: 'config',
       }
     }
 
-    try {
-      const edgeFunctionUrl = `${supabaseUrl}/functions/v1/analyze-gemini`
+    const request: RequestInit = {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseAnonKey}`,
+        'apikey': supabaseAnonKey,
+      },
+      body: JSON.stringify({ prompt, modelName, responseSchema: schema?.responseSchema, maxOutputTokens }),
+    }
+    const deadline = Date.now() + LATENCY_BUDGET_MS
 
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) {
+        return cancelled()
+      }
+      const response = await this.attemptAPICall(`${supabaseUrl}/functions/v1/analyze-gemini`, request, deadline, schema, signal)
+      if (response.success || !isRetryable(response.errorKind) || attempt >= MAX_ATTEMPTS) {
+        return response
+      }
+
+      // Full jitter, so screens that failed together don't all retry together
+      const delay = Math.random() * RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)
+      if (Date.now() + delay >= deadline) {
+        return response
+      }
+      await wait(delay, signal)
+    }
+  }
+
+  /**
+   * makeAPICall, answered from the cache when the same analysis has already run on the
+   * same input. Only Gemini's validated answers are cached, never errors or fallbacks.
+   */
+  private async cachedAPICall<T>(
+    type: AnalysisType,
+    input: unknown,
+    prompt: string,
+    schema: Schema<T>,
+    signal?: AbortSignal,
+    maxOutputTokens?: number
+  ): Promise<GeminiResponse<T>> {
+    const key = `${type}:v${PROMPT_VERSIONS[type]}:${hashInput(input)}`
+    const cached = await geminiCache.get<T>(key)
+    if (cached !== undefined) {
+      return {success: true, data: cached}
+    }
+
+    const response = await this.makeAPICall(prompt, 'gemini-2.5-flash', schema, signal, maxOutputTokens)
+    if (response.success && response.data !== undefined) {
+      geminiCache.set(key, response.data)
+    }
+    return response
+  }
+
+  /**
+   * One request to the Edge Function, abandoned if it's still going at the deadline
+   * or when the caller's signal aborts.
+   */
+  private async attemptAPICall<T>(
+    url: string,
+    request: RequestInit,
+    deadline: number,
+    schema?: Schema<T>,
+    signal?: AbortSignal
+  ): Promise<GeminiResponse<T>> {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), deadline - Date.now())
+    const abort = () => controller.abort()
+    signal?.addEventListener('abort', abort)
+
+    try {
       console.log('[Gemini] Calling via Supabase Edge Function')
 
-      const response = await fetch(edgeFunctionUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${supabaseAnonKey}`,
-          'apikey': supabaseAnonKey,
-        },
-        body: JSON.stringify({ prompt, modelName }),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        console.error('[Gemini] Edge Function error:', errorData)
+      const response = await fetch(url, { ...request, signal: controller.signal })
+      // The gateway in front of the function doesn't always answer in JSON
+      const result = await response.json().catch(() => null)
+
+      if (!response.ok || !result?.success) {
+        const errorKind: GeminiErrorKind = result?.errorKind ?? (response.ok ? 'parse' : classifyStatus(response.status))
+        console.error('[Gemini] Edge Function error:', errorKind, result)
         return {
           success: false,
-          error: errorData.error || `HTTP ${response.status}`,
+          error: result?.error || (response.ok ? 'Unknown error from Edge Function' : `HTTP ${response.status}`),
+          errorKind,
         }
       }
 
-      const result = await response.json()
-
-      if (!result.success) {
+      if (!schema) {
         return {
-          success: false,
-          error: result.error || 'Unknown error from Edge Function',
+          success: true,
+          data: result.data,
         }
       }
 
-      return {
-        success: true,
-        data: result.data,
+      try {
+        return {
+          success: true,
+          data: schema.parse(JSON.parse(result.data)),
+        }
+      } catch (parseError) {
+        const message = parseError instanceof Error ? parseError.message : String(parseError)
+        console.warn('[Gemini] Response did not match the schema:', message)
+        return {
+          success: false,
+          error: `Malformed response: ${message}`,
+          errorKind: 'parse',
+        }
       }
 
     } catch (error) {
-      console.error('[Gemini] Request failed:', error)
+      if (signal?.aborted) {
+        return cancelled()
+      }
+      const timedOut = controller.signal.aborted
+      console.error('[Gemini] Request failed:', timedOut ? 'timed out' : error)
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Network or API error',
+        error: timedOut ? 'Gemini took too long to answer' : error instanceof Error ? error.message : 'Network or API error',
+        errorKind: timedOut ? 'timeout' : 'network',
       }
+    } finally {
+      clearTimeout(timeout)
+      signal?.removeEventListener('abort', abort)
+    }
+  }
+
+  /**
+   * In batched mode, ask Gemini for every screen's analysis of the period at once, sending
+   * the products once instead of in five overlapping prompts. The analyze* methods for the
+   * period then answer from it, and only make their own request for a part it's missing or
+   * if it fails. Its answer covers the period's products as a whole rather than each screen's
+   * own slice of them. Does nothing outside batched mode, or if it's already under way for
+   * these products.
+   */
+  startStoryAnalysis(savedProducts: StoryProduct[], recommendedProducts: StoryProduct[], period: StoryPeriod) {
+    if (!this.isBatched || savedProducts.length === 0) {
+      return
+    }
+    const saved = savedProducts.slice(0, STORY_SAVED_PRODUCT_LIMIT)
+    const recommended = recommendedProducts.slice(0, STORY_RECOMMENDED_PRODUCT_LIMIT)
+    const inputKey = hashInput([saved.map(product => product.id), recommended.map(product => product.id)])
+    if (this.storyAnalyses.get(periodKey(period))?.inputKey === inputKey) {
+      return
+    }
+    this.storyAnalyses.set(periodKey(period), {inputKey, promise: this.analyzeStory(saved, recommended, period)})
+  }
+
+  private analyzeStory(
+    savedProducts: StoryProduct[],
+    recommendedProducts: StoryProduct[],
+    period: StoryPeriod
+  ): Promise<GeminiResponse<StoryAnalysis>> {
+    const shops = new Map<string, {shop: StoryProduct['shop']; count: number}>()
+    savedProducts.forEach(product => {
+      const entry = shops.get(product.shop.id) ?? {shop: product.shop, count: 0}
+      entry.count += 1
+      shops.set(product.shop.id, entry)
+    })
+    const describeProduct = (product: StoryProduct, index: number) => `${index + 1}. ${product.title}
+   Description: ${product.description || 'No description'}
+   Vendor: ${product.vendor || 'Unknown'}
+   Type: ${product.productType || this.inferProductType(product.title)}
+   Product ID: ${product.id}
+   Business ID: ${product.shop.id}`
+
+    const prompt = `You are a gen-z fashion, lifestyle and sustainability expert writing a shopping recap for the user. Analyze their saved products below and answer every part of the JSON response at once.${this.describePeriod(period)}
+
+Saved products:
+${savedProducts.map(describeProduct).join('\n\n')}
+
+Businesses they saved from:
+${Array.from(shops.values()).map(({shop, count}, index) => `${index + 1}. ${shop.name}
+   - Business Description: ${shop.description || 'Not provided'}
+   - Follower Count: ${shop.followersCount || 'Unknown'}
+   - Review Count: ${shop.reviewCount || 'Unknown'}
+   - Saved products: ${count}
+   - Business ID: ${shop.id}`).join('\n\n')}
+${recommendedProducts.length > 0 ? `
+Products recommended to them:
+${recommendedProducts.map(describeProduct).join('\n\n')}
+` : ''}
+The parts of the response:
+- aesthetics: a catchy, quirky headline for their current vibe (max 7 words, like "y2k revival baby who studies the archives"), their top 3 aesthetics (like Dark Academia, Coastal Grandmother, Clean Girl, Gorpcore, or custom names) with overlapping percentages, a 5-7 word description and an emoji each, and a witty 3 sentence summary of their style DNA.
+- palette: the 6 dominant colours of the saved products as hex codes, with percentages adding up to 100 and a max 7 word description each, a short paragraph on what the palette says about their style, its mood (like "Earthy Warmth") and its style (like "Modern Minimalist").
+- carbonFootprint: estimated total and per-product emissions in kg CO2, the 3 saved products with the lowest emissions and why, a 1 sentence analysis, and 2 actionable recommendations under ten words each.
+- smallBusiness: for each business, whether it's likely a small business (under 50 employees, local or artisan, handmade or small-batch, under 10,000 followers or 500 reviews) with a 0-1 confidence, reasoning, and estimated employees and business type if possible; the totals; a 3 sentence analysis of their support for small businesses; and 3 recommendations.
+${recommendedProducts.length > 0 ? `- recommendations: a catchy, quirky headline for where their style is heading based on the recommended products (like "elevated minimalist era incoming"), and what their future self is like in 25 words max.
+` : '- Leave out recommendations.\n'}
+Use the product and business IDs exactly as given. You are talking directly to the user. Be witty and authentic, talk like a gen-zer and keep every description short.`
+
+    return this.cachedAPICall('story', [periodKey(period), savedProducts, recommendedProducts], prompt, storyAnalysisSchema, undefined, STORY_MAX_OUTPUT_TOKENS)
+  }
+
+  /**
+   * One part of the period's batched analysis, or null to make the screen's own request:
+   * outside batched mode, before it's started, or when it failed or left that part out.
+   */
+  private async fromStoryAnalysis<K extends keyof StoryAnalysis>(
+    part: K,
+    period: StoryPeriod,
+    signal?: AbortSignal
+  ): Promise<GeminiResponse<NonNullable<StoryAnalysis[K]>> | null> {
+    const storyAnalysis = this.storyAnalyses.get(periodKey(period))
+    if (!storyAnalysis) {
+      return null
+    }
+    // The batched request is shared by every screen, so one cancelling only stops waiting for it
+    const response = await unlessAborted(storyAnalysis.promise, signal)
+    if (!response) {
+      return cancelled()
+    }
+    const data = response.data?.[part]
+    if (!response.success || !data) {
+      return null
+    }
+    return {success: true, data: data as NonNullable<StoryAnalysis[K]>}
+  }
+
+  /**
+   * A sentence telling Gemini which stretch of time the products are from, or nothing for all time
+   */
+  private describePeriod(period: StoryPeriod): string {
+    if (period.preset === 'allTime') {
+      return ''
     }
+    return ` This is the user's recap of ${period.label}: everything below is from that period, so frame your answer as a look back at it.`
   }
 
   /**
@@ -137,11 +467,17 @@ class GeminiService {
       vendor?: string
       productType?: string
       imageUrl?: string
-    }>
+    }>,
+    period: StoryPeriod = ALL_TIME,
+    signal?: AbortSignal
   ): Promise<GeminiResponse<RecommendationsAnalysis>> {
-    
+    const batched = await this.fromStoryAnalysis('recommendations', period, signal)
+    if (batched) {
+      return batched
+    }
+
     const sampleProducts = products.slice(0, 10) // Analyze up to 10 products
-    const prompt = `You are a gen-z fashion and lifestyle expert. Analyze these ${sampleProducts.length} recommended products to create a  headline about the user's future style evolution and describe what their future self would be like.
+    const prompt = `You are a gen-z fashion and lifestyle expert. Analyze these ${sampleProducts.length} recommended products to create a  headline about the user's future style evolution and describe what their future self would be like.${period.preset === 'allTime' ? '' : ` They're wrapping up ${period.label}, so pitch their future self as where their style goes after it.`}
 
 Recommended products to analyze:
 ${sampleProducts.map((product, index) => `
@@ -163,27 +499,14 @@ Make the headline creative and forward-looking, and short and catchy, focusing o
 
 IMPORTANT: Respond with ONLY valid JSON, no additional text or markdown formatting.`
 
-    try {
-      const response = await this.makeAPICall<string>(prompt, 'gemini-2.5-flash')
-      
-      if (!response.success) {
-        return this.createRecommendationsFallback(products)
+    const response = await this.cachedAPICall('recommendations', [periodKey(period), products], prompt, recommendationsSchema, signal)
+    if (!response.success || !response.data) {
+      if (response.errorKind === 'cancelled') {
+        return response
       }
-
-      try {
-        const cleanResponse = (response.data as string).replace(/```json|```/g, '').trim()
-        const analysis = JSON.parse(cleanResponse)
-        
-        return {
-          success: true,
-          data: analysis,
-        }
-      } catch (parseError) {
-        return this.createRecommendationsFallback(products)
-      }
-    } catch (error) {
-      return this.createRecommendationsFallback(products)
+      return {...this.createRecommendationsFallback(products), errorKind: response.errorKind}
     }
+    return response
   }
 
   /**
@@ -232,11 +555,17 @@ IMPORTANT: Respond with ONLY valid JSON, no additional text or markdown formatti
       vendor?: string
       productType?: string
       imageUrl?: string
-    }>
+    }>,
+    period: StoryPeriod = ALL_TIME,
+    signal?: AbortSignal
   ): Promise<GeminiResponse<AestheticsAnalysis>> {
-    
+    const batched = await this.fromStoryAnalysis('aesthetics', period, signal)
+    if (batched) {
+      return batched
+    }
+
     const sampleProducts = products.slice(0, 12) // Analyze up to 12 products
-    const prompt = `You are a gen-z fashion and lifestyle aesthetics expert. Analyze these ${sampleProducts.length} products to create a Spotify Daylist-style headline and identify the user's top 3 style aesthetics.
+    const prompt = `You are a gen-z fashion and lifestyle aesthetics expert. Analyze these ${sampleProducts.length} products to create a Spotify Daylist-style headline and identify the user's top 3 style aesthetics.${this.describePeriod(period)}
 
 Products to analyze:
 ${sampleProducts.map((product, index) => `
@@ -280,27 +609,14 @@ Make the headline creative and specific to their products. Percentages don't nee
 
 IMPORTANT: Respond with ONLY valid JSON, no additional text or markdown formatting.`
 
-    try {
-      const response = await this.makeAPICall<string>(prompt, 'gemini-2.5-flash')
-      
-      if (!response.success) {
-        return this.createAestheticsFallback(products)
+    const response = await this.cachedAPICall('aesthetics', [periodKey(period), products], prompt, aestheticsSchema, signal)
+    if (!response.success || !response.data) {
+      if (response.errorKind === 'cancelled') {
+        return response
       }
-
-      try {
-        const cleanResponse = (response.data as string).replace(/```json|```/g, '').trim()
-        const analysis = JSON.parse(cleanResponse)
-        
-        return {
-          success: true,
-          data: analysis,
-        }
-      } catch (parseError) {
-        return this.createAestheticsFallback(products)
-      }
-    } catch (error) {
-      return this.createAestheticsFallback(products)
+      return {...this.createAestheticsFallback(products), errorKind: response.errorKind}
     }
+    return response
   }
 
   /**
@@ -377,11 +693,17 @@ IMPORTANT: Respond with ONLY valid JSON, no additional text or markdown formatti
       description?: string
       vendor?: string
       productType?: string
-    }>
-  ): Promise<GeminiResponse<any>> {
-    
+    }>,
+    period: StoryPeriod = ALL_TIME,
+    signal?: AbortSignal
+  ): Promise<GeminiResponse<ColorPalette>> {
+    const batched = await this.fromStoryAnalysis('palette', period, signal)
+    if (batched) {
+      return batched
+    }
+
     const sampleProducts = products.slice(0, 10) // Analyze up to 10 products
-    const prompt = `Analyze the color palette and style trends from these ${sampleProducts.length} fashion/lifestyle products and extract the dominant colors. For each product, I'll provide the title, description, vendor, and type.
+    const prompt = `Analyze the color palette and style trends from these ${sampleProducts.length} fashion/lifestyle products and extract the dominant colors. For each product, I'll provide the title, description, vendor, and type.${this.describePeriod(period)}
 
 Products to analyze:
 ${sampleProducts.map((product, index) => `
@@ -410,35 +732,20 @@ Extract 6 dominant colors that would represent this collection, ensure percentag
 
 IMPORTANT: Respond with ONLY valid JSON, no additional text or markdown formatting.`
 
-    try {
-      const response = await this.makeAPICall<string>(prompt, 'gemini-2.5-flash')
-      
-      if (!response.success) {
-        // Smart fallback based on your products
-        return this.createColorFallback(products)
+    const response = await this.cachedAPICall('palette', [periodKey(period), products], prompt, colorPaletteSchema, signal)
+    if (!response.success || !response.data) {
+      if (response.errorKind === 'cancelled') {
+        return response
       }
-
-      try {
-        // Try to parse JSON response
-        const cleanResponse = (response.data as string).replace(/```json|```/g, '').trim()
-        const analysis = JSON.parse(cleanResponse)
-        
-        return {
-          success: true,
-          data: analysis,
-        }
-      } catch (parseError) {
-        return this.createColorFallback(products)
-      }
-    } catch (error) {
-      return this.createColorFallback(products)
+      return {...this.createColorFallback(products), errorKind: response.errorKind}
     }
+    return response
   }
 
   /**
    * Smart color fallback based on actual product analysis
    */
-  private createColorFallback(products: any[]): GeminiResponse<any> {
+  private createColorFallback(products: any[]): GeminiResponse<ColorPalette> {
     // Analyze your actual products to determine style
     const allText = products.map(p => `${p.title} ${p.vendor || ''} ${p.productType || ''}`).join(' ').toLowerCase()
     
@@ -490,11 +797,12 @@ IMPORTANT: Respond with ONLY valid JSON, no additional text or markdown formatti
       }
     }
 
-    (palette as any).overallDescription = `Based on your ${products.length} saved products, your style reflects ${palette.mood.toLowerCase()} preferences with ${palette.style.toLowerCase()} aesthetics.`
-
     return {
       success: true,
-      data: palette,
+      data: {
+        ...palette,
+        overallDescription: `Based on your ${products.length} saved products, your style reflects ${palette.mood.toLowerCase()} preferences with ${palette.style.toLowerCase()} aesthetics.`,
+      },
     }
   }
 
@@ -508,8 +816,14 @@ IMPORTANT: Respond with ONLY valid JSON, no additional text or markdown formatti
       description?: string
       vendor?: string
       productType?: string
-    }>
+    }>,
+    period: StoryPeriod = ALL_TIME,
+    signal?: AbortSignal
   ): Promise<GeminiResponse<CarbonFootprintAnalysis>> {
+    const batched = await this.fromStoryAnalysis('carbonFootprint', period, signal)
+    if (batched) {
+      return batched
+    }
 
     // Filter out products with no useful data and enhance what we have
     const validProducts = products.filter(p => p.title && p.title.trim() !== '').slice(0, 12)
@@ -527,7 +841,7 @@ IMPORTANT: Respond with ONLY valid JSON, no additional text or markdown formatti
       productType: p.productType || this.inferProductType(p.title),
     }))
 
-    const prompt = `You are a gen-z environmental sustainability expert. Analyze the carbon footprint of the following products and provide insights.
+    const prompt = `You are a gen-z environmental sustainability expert. Analyze the carbon footprint of the following products and provide insights.${this.describePeriod(period)}
 
 Products to analyze:
 ${enhancedProducts.map((p, index) => `${index + 1}. ${p.title}
@@ -555,27 +869,14 @@ Rank the products by emissions and provide the top 3 most eco-friendly purchases
 
 IMPORTANT: Respond with ONLY valid JSON, no additional text or markdown formatting.`
 
-    try {
-      const response = await this.makeAPICall<string>(prompt, 'gemini-2.5-flash')
-      
-      if (!response.success) {
-        return this.createCarbonFallback(products)
-      }
-
-      try {
-        const cleanResponse = (response.data as string).replace(/```json|```/g, '').trim()
-        const analysis = JSON.parse(cleanResponse)
-        
-        return {
-          success: true,
-          data: analysis,
-        }
-      } catch (parseError) {
-        return this.createCarbonFallback(products)
+    const response = await this.cachedAPICall('carbonFootprint', [periodKey(period), products], prompt, carbonFootprintSchema, signal)
+    if (!response.success || !response.data) {
+      if (response.errorKind === 'cancelled') {
+        return response
       }
-    } catch (error) {
-      return this.createCarbonFallback(products)
+      return {...this.createCarbonFallback(products), errorKind: response.errorKind}
     }
+    return response
   }
 
   /**
@@ -691,11 +992,17 @@ IMPORTANT: Respond with ONLY valid JSON, no additional text or markdown formatti
       followersCount?: number
       reviewCount?: number
       purchaseCount: number
-    }>
+    }>,
+    period: StoryPeriod = ALL_TIME,
+    signal?: AbortSignal
   ): Promise<GeminiResponse<SmallBusinessAnalysis>> {
+    const batched = await this.fromStoryAnalysis('smallBusiness', period, signal)
+    if (batched) {
+      return batched
+    }
 
     const sampleBusinesses = businesses.slice(0, 15) // Analyze up to 15 businesses
-    const prompt = `You are a business analyst expert. Analyze the following businesses to determine which ones are likely small businesses versus large corporations. Consider multiple factors to make informed classifications.
+    const prompt = `You are a business analyst expert. Analyze the following businesses to determine which ones are likely small businesses versus large corporations. Consider multiple factors to make informed classifications.${this.describePeriod(period)}
 
 Businesses to analyze:
 ${sampleBusinesses.map((b, index) => `${index + 1}. ${b.name}
@@ -743,27 +1050,14 @@ Provide  insights about the user's shopping patterns and the impact of supportin
 
 IMPORTANT: Respond with ONLY valid JSON, no additional text or markdown formatting.`
 
-    try {
-      const response = await this.makeAPICall<string>(prompt, 'gemini-2.5-flash')
-      
-      if (!response.success) {
-        return this.createSmallBusinessFallback(businesses)
+    const response = await this.cachedAPICall('smallBusiness', [periodKey(period), businesses], prompt, smallBusinessSchema, signal)
+    if (!response.success || !response.data) {
+      if (response.errorKind === 'cancelled') {
+        return response
       }
-
-      try {
-        const cleanResponse = (response.data as string).replace(/```json|```/g, '').trim()
-        const analysis = JSON.parse(cleanResponse)
-        
-        return {
-          success: true,
-          data: analysis,
-        }
-      } catch (parseError) {
-        return this.createSmallBusinessFallback(businesses)
-      }
-    } catch (error) {
-      return this.createSmallBusinessFallback(businesses)
+      return {...this.createSmallBusinessFallback(businesses), errorKind: response.errorKind}
     }
+    return response
   }
 
   /**
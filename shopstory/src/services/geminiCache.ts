@@ -0,0 +1,153 @@
+/**
+ * Gemini's answers from earlier sessions, so opening the mini again with the same
+ * saved products shows the same analyses straight away instead of paying for new ones.
+ *
+ * Entries are keyed by GeminiService (analysis type, prompt version and a hash of the
+ * input) and kept in the SDK's async storage as one JSON blob, read once and written
+ * back shortly after each change. Entries expire after CACHE_TTL_MS, and the oldest
+ * are dropped first once the cache goes over its entry or size limit.
+ *
+ * The storage comes from a hook, so nothing is cached until useGeminiCache() has run;
+ * until then lookups miss and nothing is stored.
+ */
+
+export const GEMINI_CACHE_STORAGE_KEY = 'shopstory:gemini-cache'
+
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000
+const MAX_CACHE_ENTRIES = 40
+// Length of the stored JSON; async storage is meant for small values
+const MAX_CACHE_CHARS = 200000
+// Analyses finish in bursts, so writes are batched
+const SAVE_DELAY_MS = 500
+
+// The part of the SDK's useAsyncStorage() the cache uses
+export type CacheStorage = {
+  getItem: (params: {key: string}) => Promise<string | null>
+  setItem: (params: {key: string; value: string}) => Promise<void>
+}
+
+type CacheEntry = {
+  storedAt: number
+  data: unknown
+}
+
+const isCacheEntry = (value: unknown): value is CacheEntry =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as CacheEntry).storedAt === 'number' && 'data' in value
+
+/**
+ * A short, stable hash of any JSON-serializable value (53-bit cyrb53), for cache keys.
+ */
+export function hashInput(input: unknown): string {
+  const text = JSON.stringify(input) ?? ''
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    h1 = Math.imul(h1 ^ code, 2654435761)
+    h2 = Math.imul(h2 ^ code, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
+
+class GeminiCache {
+  private storage: CacheStorage | null = null
+  // Oldest first; null until storage is attached, then resolves once it's been read
+  private entries: Promise<Map<string, CacheEntry>> | null = null
+  private saveTimer: ReturnType<typeof setTimeout> | null = null
+
+  /**
+   * Give the cache somewhere to live. The first call loads what's stored; later ones
+   * just swap in the newer storage helpers.
+   */
+  attach(storage: CacheStorage) {
+    this.storage = storage
+    if (!this.entries) {
+      this.entries = this.load()
+    }
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entries = await this.entries
+    const entry = entries?.get(key)
+    if (!entry) {
+      return undefined
+    }
+    if (Date.now() - entry.storedAt > CACHE_TTL_MS) {
+      entries!.delete(key)
+      this.scheduleSave()
+      return undefined
+    }
+    return entry.data as T
+  }
+
+  async set(key: string, data: unknown) {
+    const entries = await this.entries
+    if (!entries) {
+      return
+    }
+    // Re-inserted so it counts as the newest
+    entries.delete(key)
+    entries.set(key, {storedAt: Date.now(), data})
+    this.scheduleSave()
+  }
+
+  private async load(): Promise<Map<string, CacheEntry>> {
+    const entries = new Map<string, CacheEntry>()
+    try {
+      const raw = await this.storage!.getItem({key: GEMINI_CACHE_STORAGE_KEY})
+      const parsed: unknown = raw ? JSON.parse(raw) : []
+      if (Array.isArray(parsed)) {
+        parsed.forEach(item => {
+          if (Array.isArray(item) && typeof item[0] === 'string' && isCacheEntry(item[1])) {
+            entries.set(item[0], item[1])
+          }
+        })
+      }
+    } catch (error) {
+      console.error('[GeminiCache] Failed to load cached analyses:', error)
+    }
+    this.prune(entries)
+    return entries
+  }
+
+  /**
+   * Drop expired entries, then the oldest until the rest fit the limits. Returns what to store.
+   */
+  private prune(entries: Map<string, CacheEntry>): string {
+    const now = Date.now()
+    entries.forEach((entry, key) => {
+      if (now - entry.storedAt > CACHE_TTL_MS) {
+        entries.delete(key)
+      }
+    })
+    let serialized = JSON.stringify(Array.from(entries))
+    while (entries.size > 0 && (entries.size > MAX_CACHE_ENTRIES || serialized.length > MAX_CACHE_CHARS)) {
+      entries.delete(entries.keys().next().value as string)
+      serialized = JSON.stringify(Array.from(entries))
+    }
+    return serialized
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) {
+      return
+    }
+    this.saveTimer = setTimeout(async () => {
+      this.saveTimer = null
+      const entries = await this.entries
+      if (!entries || !this.storage) {
+        return
+      }
+      this.storage
+        .setItem({key: GEMINI_CACHE_STORAGE_KEY, value: this.prune(entries)})
+        .catch((error: unknown) => {
+          console.error('[GeminiCache] Failed to save cached analyses:', error)
+        })
+    }, SAVE_DELAY_MS)
+  }
+}
+
+export const geminiCache = new GeminiCache()
@@ -0,0 +1,125 @@
+import {Order, Product} from '@shopify/shop-minis-react'
+
+/**
+ * The user's orders, as the screens see them.
+ * Saved products are what someone wanted; orders are what they actually bought.
+ * The SDK's orders are mapped onto these types here, once. They only say what was
+ * bought from which shop: there are no totals, prices or fulfillments, and no date
+ * beyond one a fixture may carry (see createdAt).
+ */
+
+export type OrderShop = {
+  id: string
+  name: string
+}
+
+export type StoryOrderLineItem = {
+  productId?: string
+  title: string
+  // e.g. "Medium / Oat"; unset for products without variants
+  variantTitle?: string
+  quantity: number
+  product?: Product
+}
+
+export type StoryOrder = {
+  id: string
+  // The order number shown to the buyer, e.g. "#1001"
+  name: string
+  // 'Unknown shop' when the SDK no longer has it
+  shop: OrderShop
+  lineItems: StoryOrderLineItem[]
+  // When it was placed. The SDK doesn't say, so this is only set for fixture orders
+  createdAt?: Date
+}
+
+// The SDK's order, plus the date fixture orders carry
+type DatedOrder = Order & {createdAt?: string}
+
+const toDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined
+  }
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+function normalizeLineItem(item: Order['lineItems'][number]): StoryOrderLineItem {
+  return {
+    ...(item.product ? {productId: item.product.id, product: item.product} : {}),
+    title: item.productTitle,
+    ...(item.variantTitle ? {variantTitle: item.variantTitle} : {}),
+    quantity: item.quantity,
+  }
+}
+
+/**
+ * Map one SDK order onto a StoryOrder.
+ */
+export function normalizeOrder(order: Order): StoryOrder {
+  const createdAt = toDate((order as DatedOrder).createdAt)
+  return {
+    id: order.id,
+    name: order.name,
+    shop: {
+      id: order.shop?.id ?? 'unknown',
+      name: order.shop?.name ?? 'Unknown shop',
+    },
+    lineItems: order.lineItems.map(normalizeLineItem),
+    ...(createdAt ? {createdAt} : {}),
+  }
+}
+
+export function normalizeOrders(orders: Order[]): StoryOrder[] {
+  return orders.map(normalizeOrder)
+}
+
+/**
+ * Ids of every product that shows up in an order, for telling bought from only saved.
+ */
+export function getPurchasedProductIds(orders: StoryOrder[]): Set<string> {
+  return new Set(orders.flatMap(order => order.lineItems.flatMap(item => (item.productId ? [item.productId] : []))))
+}
+
+/**
+ * How many orders were placed with each shop, keyed by shop id.
+ */
+export function countOrdersByShop(orders: StoryOrder[]): Map<string, number> {
+  return orders.reduce(
+    (counts, order) => counts.set(order.shop.id, (counts.get(order.shop.id) ?? 0) + 1),
+    new Map<string, number>()
+  )
+}
+
+export type ShopOrderSummary = {
+  shop: OrderShop
+  orderCount: number
+  // Units, counting each line item's quantity
+  itemCount: number
+}
+
+export const countOrderItems = (order: StoryOrder) => order.lineItems.reduce((total, item) => total + item.quantity, 0)
+
+/**
+ * Orders and items per shop, the shop ordered from most first.
+ */
+export function summarizeOrdersByShop(orders: StoryOrder[]): ShopOrderSummary[] {
+  const summaries = new Map<string, ShopOrderSummary>()
+  orders.forEach(order => {
+    const summary = summaries.get(order.shop.id) ?? {shop: order.shop, orderCount: 0, itemCount: 0}
+    summary.orderCount += 1
+    summary.itemCount += countOrderItems(order)
+    summaries.set(order.shop.id, summary)
+  })
+  return Array.from(summaries.values()).sort((a, b) => b.orderCount - a.orderCount || b.itemCount - a.itemCount)
+}
+
+/**
+ * The order with the most items in it, or undefined when there are no orders.
+ */
+export function getBiggestOrder(orders: StoryOrder[]): StoryOrder | undefined {
+  return orders.reduce<StoryOrder | undefined>(
+    (biggest, order) => (!biggest || countOrderItems(order) > countOrderItems(biggest) ? order : biggest),
+    undefined
+  )
+}
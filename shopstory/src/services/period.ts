@@ -0,0 +1,128 @@
+import {StoryOrder} from './orders'
+import {StoryProduct} from './products'
+
+/**
+ * The stretch of time a story looks back over, for Wrapped-style recaps of a
+ * year or a month. DataContext filters the saved products and orders down to
+ * it, and the Gemini prompts are told which period they're summing up.
+ *
+ * That needs to know when each product was saved and each order placed, which
+ * the SDK doesn't say yet, so with live data the story stays on all time (see
+ * canFilterByPeriod). The fixtures carry dates.
+ */
+
+export type PeriodPreset = 'allTime' | 'thisMonth' | 'thisYear' | 'custom'
+
+export type StoryPeriod = {
+  preset: PeriodPreset
+  // Start of the first day in the period; unset for all time
+  start?: Date
+  // Start of the day after the period ends, so the last day is included in full
+  end?: Date
+  // How the period reads in copy, e.g. "2026" or "October 2026"
+  label: string
+}
+
+export const ALL_TIME: StoryPeriod = {preset: 'allTime', label: 'All time'}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+const getMonth = (year: number, month: number, preset: PeriodPreset): StoryPeriod => {
+  const start = new Date(year, month, 1)
+  return {
+    preset,
+    start,
+    end: new Date(year, month + 1, 1),
+    label: start.toLocaleDateString(undefined, {month: 'long', year: 'numeric'}),
+  }
+}
+
+const getYear = (year: number, preset: PeriodPreset): StoryPeriod => ({
+  preset,
+  start: new Date(year, 0, 1),
+  end: new Date(year + 1, 0, 1),
+  label: String(year),
+})
+
+export function getThisMonth(now = new Date()): StoryPeriod {
+  return getMonth(now.getFullYear(), now.getMonth(), 'thisMonth')
+}
+
+export function getThisYear(now = new Date()): StoryPeriod {
+  return getYear(now.getFullYear(), 'thisYear')
+}
+
+/**
+ * A period running from the start of `from` to the end of `to`, both days included.
+ * The two are swapped if given the wrong way round.
+ */
+export function getCustomPeriod(from: Date, to: Date): StoryPeriod {
+  const [first, last] = from.getTime() <= to.getTime() ? [from, to] : [to, from]
+  const format = (date: Date) => date.toLocaleDateString(undefined, {month: 'short', day: 'numeric', year: 'numeric'})
+  return {
+    preset: 'custom',
+    start: startOfDay(first),
+    end: addDays(last, 1),
+    label: `${format(first)} – ${format(last)}`,
+  }
+}
+
+/**
+ * The period just before this one, to compare against: the month before a month, the year
+ * before a year, or a range of the same length ending where a custom one starts.
+ * All time has nothing before it.
+ */
+export function getPreviousPeriod(period: StoryPeriod): StoryPeriod | null {
+  const {start, end} = period
+  if (!start || !end) {
+    return null
+  }
+  if (period.preset === 'thisMonth') {
+    return getMonth(start.getFullYear(), start.getMonth() - 1, 'custom')
+  }
+  if (period.preset === 'thisYear') {
+    return getYear(start.getFullYear() - 1, 'custom')
+  }
+  const days = Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000))
+  return getCustomPeriod(addDays(start, -days), addDays(start, -1))
+}
+
+export function isWithinPeriod(period: StoryPeriod, date: Date): boolean {
+  return (!period.start || date.getTime() >= period.start.getTime()) &&
+    (!period.end || date.getTime() < period.end.getTime())
+}
+
+// Part of the analysis store key, so the same products analyzed for two periods are kept apart
+export function periodKey(period: StoryPeriod): string {
+  return period.start || period.end
+    ? `${period.start?.toISOString() ?? ''}..${period.end?.toISOString() ?? ''}`
+    : 'all'
+}
+
+/**
+ * Whether the data can be narrowed to a period: every saved product and order needs a date,
+ * or anything recapped as "this year" would really be all time.
+ */
+export function canFilterByPeriod(products: StoryProduct[], orders: StoryOrder[]): boolean {
+  return products.length > 0 &&
+    products.every(product => !!product.savedAt) &&
+    orders.every(order => !!order.createdAt)
+}
+
+// Saved products from within the period; check canFilterByPeriod first
+export function filterProductsByPeriod(products: StoryProduct[], period: StoryPeriod): StoryProduct[] {
+  if (period.preset === 'allTime') {
+    return products
+  }
+  return products.filter(product => !!product.savedAt && isWithinPeriod(period, product.savedAt))
+}
+
+// Orders from within the period; check canFilterByPeriod first
+export function filterOrdersByPeriod(orders: StoryOrder[], period: StoryPeriod): StoryOrder[] {
+  if (period.preset === 'allTime') {
+    return orders
+  }
+  return orders.filter(order => !!order.createdAt && isWithinPeriod(period, order.createdAt))
+}
@@ -0,0 +1,284 @@
+import {AestheticsAnalysis, CarbonFootprintAnalysis, SmallBusinessAnalysis} from './gemini'
+import {StoryOrder} from './orders'
+import {getPreviousPeriod, periodKey, StoryPeriod} from './period'
+import {StoryProduct} from './products'
+
+/**
+ * A compact record of what a period's story said, kept between sessions so a
+ * later story can say how things changed since, e.g. "your palette got 30% warmer".
+ * Only what the comparisons need is stored, not the analyses themselves.
+ */
+
+export const PERIOD_HISTORY_STORAGE_KEY = 'shopstory:period-summaries'
+// 2: earlier summaries may have been recorded from data that couldn't be narrowed to their period
+const PERIOD_SUMMARY_VERSION = 2
+// Two years of months, or plenty of years
+const MAX_STORED_SUMMARIES = 24
+// Brands kept per summary for comparing who's on top
+const TOP_BRANDS_STORED = 5
+
+export type PeriodSummary = {
+  version: number
+  // periodKey() of the period summed up, which is how it's found again
+  periodKey: string
+  label: string
+  savedAt: number
+  savedProductCount: number
+  orderCount: number
+  // Shops saved from or ordered from, by id
+  shopIds: string[]
+  topBrands: Array<{id: string; name: string}>
+  // The rest come from Gemini analyses and are missing if they hadn't finished
+  topAesthetics?: string[]
+  paletteHexes?: string[]
+  averageEmissionsKgCO2?: number
+  smallBusinessIds?: string[]
+  // Share of the analyzed businesses that are small, from 0 to 1
+  smallBusinessShare?: number
+}
+
+// The analysis results a summary is built from, whichever have finished
+export type PeriodSummaryAnalyses = {
+  aesthetics?: AestheticsAnalysis
+  palette?: {colors: Array<{hex: string}>}
+  carbonFootprint?: CarbonFootprintAnalysis
+  smallBusiness?: SmallBusinessAnalysis
+}
+
+export type SummaryDeltaCategory = 'style' | 'shopping'
+
+export type SummaryDelta = {
+  id: string
+  category: SummaryDeltaCategory
+  emoji: string
+  headline: string
+  detail?: string
+}
+
+export function buildPeriodSummary(
+  period: StoryPeriod,
+  {savedProducts, orders}: {savedProducts: StoryProduct[]; orders: StoryOrder[]},
+  analyses: PeriodSummaryAnalyses,
+): PeriodSummary {
+  const brandCounts = new Map<string, {id: string; name: string; count: number}>()
+  savedProducts.forEach(product => {
+    const {id, name} = product.shop
+    const brand = brandCounts.get(id) ?? {id, name, count: 0}
+    brand.count += 1
+    brandCounts.set(id, brand)
+  })
+  const topBrands = Array.from(brandCounts.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_BRANDS_STORED)
+    .map(({id, name}) => ({id, name}))
+
+  const {aesthetics, palette, carbonFootprint, smallBusiness} = analyses
+  const smallBusinesses = smallBusiness?.smallBusinesses.filter(business => business.isSmallBusiness)
+
+  return {
+    version: PERIOD_SUMMARY_VERSION,
+    periodKey: periodKey(period),
+    label: period.label,
+    savedAt: Date.now(),
+    savedProductCount: savedProducts.length,
+    orderCount: orders.length,
+    shopIds: Array.from(new Set([...brandCounts.keys(), ...orders.map(order => order.shop.id)])),
+    topBrands,
+    ...(aesthetics ? {topAesthetics: aesthetics.topAesthetics.map(aesthetic => aesthetic.name)} : {}),
+    ...(palette ? {paletteHexes: palette.colors.map(color => color.hex)} : {}),
+    ...(carbonFootprint ? {averageEmissionsKgCO2: carbonFootprint.averageEmissionsPerProduct} : {}),
+    ...(smallBusinesses && smallBusiness
+      ? {
+        smallBusinessIds: smallBusinesses.map(business => business.businessId),
+        smallBusinessShare: smallBusiness.totalBusinesses > 0 ? smallBusinesses.length / smallBusiness.totalBusinesses : 0,
+      }
+      : {}),
+  }
+}
+
+const isPeriodSummary = (value: unknown): value is PeriodSummary => {
+  const summary = value as PeriodSummary | null
+  return (
+    typeof summary === 'object' &&
+    summary !== null &&
+    summary.version === PERIOD_SUMMARY_VERSION &&
+    typeof summary.periodKey === 'string' &&
+    typeof summary.label === 'string' &&
+    Array.isArray(summary.shopIds) &&
+    Array.isArray(summary.topBrands)
+  )
+}
+
+/**
+ * Read the stored summaries, dropping anything unreadable or from an older version.
+ */
+export function parsePeriodHistory(raw: string | null): PeriodSummary[] {
+  if (!raw) {
+    return []
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter(isPeriodSummary) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Add or replace a period's summary, keeping the most recently saved ones.
+ */
+export function mergePeriodSummary(history: PeriodSummary[], summary: PeriodSummary): PeriodSummary[] {
+  return [summary, ...history.filter(stored => stored.periodKey !== summary.periodKey)]
+    .sort((a, b) => b.savedAt - a.savedAt)
+    .slice(0, MAX_STORED_SUMMARIES)
+}
+
+/**
+ * The stored summary of the period before this one. There's none for all time, which is
+ * also what the story recaps when the data can't be narrowed to a period.
+ */
+export function findPreviousSummary(history: PeriodSummary[], period: StoryPeriod): PeriodSummary | undefined {
+  const previous = getPreviousPeriod(period)
+  const key = previous && periodKey(previous)
+  return key ? history.find(summary => summary.periodKey === key) : undefined
+}
+
+// How warm a colour reads, from its hue; greys don't count either way
+function isWarmHex(hex: string): boolean | null {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim())
+  if (!match) {
+    return null
+  }
+  const value = parseInt(match[1], 16)
+  const [r, g, b] = [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(channel => channel / 255)
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const saturation = max === 0 ? 0 : (max - min) / max
+  if (saturation < 0.15) {
+    return null
+  }
+  const hue = max === r
+    ? (60 * ((g - b) / (max - min)) + 360) % 360
+    : max === g
+      ? 60 * ((b - r) / (max - min)) + 120
+      : 60 * ((r - g) / (max - min)) + 240
+  // Reds, oranges and yellows
+  return hue < 70 || hue >= 330
+}
+
+/**
+ * Share of a palette's coloured (not grey) swatches that are warm, from 0 to 1.
+ */
+export function getPaletteWarmth(hexes: string[]): number | null {
+  const tones = hexes.map(isWarmHex).filter((tone): tone is boolean => tone !== null)
+  return tones.length > 0 ? tones.filter(Boolean).length / tones.length : null
+}
+
+const percent = (value: number) => Math.round(Math.abs(value) * 100)
+
+/**
+ * What changed between two periods, in the order the comparison screens show it.
+ * Changes too small to be worth a card are left out.
+ */
+export function compareSummaries(current: PeriodSummary, previous: PeriodSummary): SummaryDelta[] {
+  const deltas: SummaryDelta[] = []
+  const since = `since ${previous.label}`
+
+  if (current.topAesthetics && previous.topAesthetics) {
+    const before = new Set(previous.topAesthetics.map(name => name.toLowerCase()))
+    const newcomers = current.topAesthetics.filter(name => !before.has(name.toLowerCase()))
+    if (newcomers.length > 0) {
+      deltas.push({
+        id: 'aesthetics',
+        category: 'style',
+        emoji: '✨',
+        headline: `${newcomers[0]} crashed your top 3`,
+        detail: `New ${since}. ${previous.topAesthetics[0]} had the top spot back then.`,
+      })
+    } else if (current.topAesthetics[0]) {
+      deltas.push({
+        id: 'aesthetics',
+        category: 'style',
+        emoji: '🔒',
+        headline: `Still ${current.topAesthetics[0]} at heart`,
+        detail: `Same top 3 aesthetics as ${previous.label}. Consistency is a vibe.`,
+      })
+    }
+  }
+
+  const warmthNow = current.paletteHexes && getPaletteWarmth(current.paletteHexes)
+  const warmthBefore = previous.paletteHexes && getPaletteWarmth(previous.paletteHexes)
+  if (typeof warmthNow === 'number' && typeof warmthBefore === 'number' && Math.abs(warmthNow - warmthBefore) >= 0.1) {
+    const warmer = warmthNow > warmthBefore
+    deltas.push({
+      id: 'palette',
+      category: 'style',
+      emoji: warmer ? '🔥' : '🧊',
+      headline: `Your palette got ${percent(warmthNow - warmthBefore)}% ${warmer ? 'warmer' : 'cooler'}`,
+      detail: `Compared with your colours from ${previous.label}.`,
+    })
+  }
+
+  const shopsBefore = new Set(previous.shopIds)
+  if (current.smallBusinessIds) {
+    const newSmallShops = current.smallBusinessIds.filter(id => !shopsBefore.has(id))
+    if (newSmallShops.length > 0) {
+      deltas.push({
+        id: 'newSmallShops',
+        category: 'shopping',
+        emoji: '💚',
+        headline: `You discovered ${newSmallShops.length} new small shop${newSmallShops.length !== 1 ? 's' : ''} ${since}`,
+      })
+    }
+  }
+
+  if (current.smallBusinessShare !== undefined && previous.smallBusinessShare !== undefined) {
+    const change = current.smallBusinessShare - previous.smallBusinessShare
+    if (Math.abs(change) >= 0.1) {
+      deltas.push({
+        id: 'smallBusinessShare',
+        category: 'shopping',
+        emoji: change > 0 ? '🏪' : '🏢',
+        headline: `Small businesses are ${percent(change)} points ${change > 0 ? 'more' : 'less'} of your mix`,
+        detail: `${percent(current.smallBusinessShare)}% now, ${percent(previous.smallBusinessShare)}% in ${previous.label}.`,
+      })
+    }
+  }
+
+  if (current.averageEmissionsKgCO2 !== undefined && previous.averageEmissionsKgCO2) {
+    const change = (current.averageEmissionsKgCO2 - previous.averageEmissionsKgCO2) / previous.averageEmissionsKgCO2
+    if (Math.abs(change) >= 0.05) {
+      deltas.push({
+        id: 'emissions',
+        category: 'shopping',
+        emoji: change < 0 ? '🌱' : '🏭',
+        headline: `Your average item's footprint ${change < 0 ? 'dropped' : 'rose'} ${percent(change)}%`,
+        detail: `${current.averageEmissionsKgCO2.toFixed(1)} kg CO₂ per item, ${change < 0 ? 'down' : 'up'} from ${previous.averageEmissionsKgCO2.toFixed(1)}.`,
+      })
+    }
+  }
+
+  const topBrandNow = current.topBrands[0]
+  const topBrandBefore = previous.topBrands[0]
+  if (topBrandNow && topBrandBefore && topBrandNow.id !== topBrandBefore.id) {
+    deltas.push({
+      id: 'topBrand',
+      category: 'shopping',
+      emoji: '👑',
+      headline: `${topBrandNow.name} took the crown`,
+      detail: `${topBrandBefore.name} was your most-saved brand in ${previous.label}.`,
+    })
+  }
+
+  const newShops = current.shopIds.filter(id => !shopsBefore.has(id))
+  if (newShops.length > 0) {
+    deltas.push({
+      id: 'newShops',
+      category: 'shopping',
+      emoji: '🧭',
+      headline: `${newShops.length} brand${newShops.length !== 1 ? 's' : ''} on your radar that weren't in ${previous.label}`,
+    })
+  }
+
+  return deltas
+}
@@ -0,0 +1,130 @@
+import {Product, ProductImage, ProductShop} from '@shopify/shop-minis-react'
+
+/**
+ * Products and shops, as the screens see them.
+ * The SDK's products are mapped onto these types here, once. They carry less than
+ * the screens and prompts were written for: no description, vendor, product type or
+ * save date, and only the shop's id and name. Those fields are kept, always set to
+ * the default documented on them, so everything reads one shape whatever the SDK adds.
+ */
+
+export type Money = {
+  amount: number
+  currencyCode: string
+}
+
+export type StoryImage = {
+  url: string
+  altText?: string
+}
+
+export type StoryShop = {
+  id: string
+  name: string
+  // The rest aren't on the SDK's product shop, so they're always these defaults:
+  // '', unset, false and 0
+  description: string
+  logoUrl?: string
+  isFollowing: boolean
+  followersCount: number
+  reviewCount: number
+  averageRating?: number
+}
+
+export type StoryProduct = {
+  id: string
+  title: string
+  // Always ''; the SDK doesn't return descriptions
+  description: string
+  // Always the shop's name; the SDK doesn't name a brand
+  vendor: string
+  // Always ''; the SDK doesn't return product types
+  productType: string
+  // Unset if the SDK's amount doesn't parse
+  price?: Money
+  // From the product's own reviews; 0 and unset when it has none
+  reviewCount: number
+  averageRating?: number
+  // The featured image, then the variants' images, without repeats; empty when there are none
+  images: StoryImage[]
+  // The first of images
+  featuredImage?: StoryImage
+  shop: StoryShop
+  // When the user saved it. The SDK doesn't say, so this is only set for fixture products
+  savedAt?: Date
+  // The SDK's own product, for SDK components like ProductCard
+  source: Product
+}
+
+// The SDK's product, plus the date fixture products carry
+type DatedProduct = Product & {savedAt?: string}
+
+// The SDK gives amounts as decimal strings
+const toMoney = (money: Product['price']): Money | undefined => {
+  const amount = Number(money.amount)
+  return Number.isNaN(amount) ? undefined : {amount, currencyCode: money.currencyCode}
+}
+
+const toCount = (value: number | null | undefined): number =>
+  value && Number.isFinite(value) && value > 0 ? value : 0
+
+function toImage(image: ProductImage | null | undefined): StoryImage | undefined {
+  const url = image?.url.trim()
+  if (!url) {
+    return undefined
+  }
+  const altText = image?.altText?.trim()
+  return altText ? {url, altText} : {url}
+}
+
+function toImages(product: Product): StoryImage[] {
+  const variants = [product.selectedVariant, ...(product.variants ?? [])]
+  const images = [product.featuredImage, ...variants.map(variant => variant?.image)]
+    .map(toImage)
+    .filter((image): image is StoryImage => !!image)
+  return images.filter((image, index) => images.findIndex(other => other.url === image.url) === index)
+}
+
+/**
+ * Map the SDK's product shop onto a StoryShop, filling in the defaults documented on it.
+ */
+export function normalizeShop(shop: ProductShop): StoryShop {
+  return {
+    id: shop.id,
+    name: shop.name,
+    description: '',
+    isFollowing: false,
+    followersCount: 0,
+    reviewCount: 0,
+  }
+}
+
+/**
+ * Map one SDK product onto a StoryProduct, filling in the defaults documented on it.
+ */
+export function normalizeProduct(product: Product): StoryProduct {
+  const shop = normalizeShop(product.shop)
+  const images = toImages(product)
+  const averageRating = product.reviewAnalytics.averageRating ?? 0
+  const savedAt = new Date((product as DatedProduct).savedAt ?? NaN)
+
+  return {
+    id: product.id,
+    title: product.title.trim(),
+    description: '',
+    vendor: shop.name,
+    productType: '',
+    price: toMoney(product.price),
+    reviewCount: toCount(product.reviewAnalytics.reviewCount),
+    ...(averageRating > 0 ? {averageRating} : {}),
+    images,
+    featuredImage: images[0],
+    shop,
+    ...(!Number.isNaN(savedAt.getTime()) ? {savedAt} : {}),
+    source: product,
+  }
+}
+
+export function normalizeProducts(products: Product[]): StoryProduct[] {
+  return products.map(normalizeProduct)
+}
@@ -0,0 +1,207 @@
+/**
+ * Just enough of a schema library for Gemini's structured output.
+ * Each schema does two jobs: it's sent along with the prompt as the response schema,
+ * which Gemini's JSON mode follows, and it checks the reply against the same rules,
+ * since the response schema is a strong hint rather than a guarantee. Checking coerces
+ * what it sensibly can (numbers sent as strings, out of range values, stray whitespace)
+ * and throws a SchemaError naming the field for anything it can't.
+ */
+
+// The subset of OpenAPI schema that Gemini accepts as a responseSchema
+export type ResponseSchema = {
+  type: 'OBJECT' | 'ARRAY' | 'STRING' | 'NUMBER' | 'INTEGER' | 'BOOLEAN'
+  description?: string
+  properties?: Record<string, ResponseSchema>
+  required?: string[]
+  propertyOrdering?: string[]
+  items?: ResponseSchema
+  minItems?: number
+  maxItems?: number
+  minimum?: number
+  maximum?: number
+}
+
+export class SchemaError extends Error {
+  // Where in the response the problem is, e.g. "colors[2].hex"
+  path: string
+
+  constructor(path: string, problem: string) {
+    super(`${path || 'response'} ${problem}`)
+    this.name = 'SchemaError'
+    this.path = path
+  }
+}
+
+export type Schema<T> = {
+  responseSchema: ResponseSchema
+  // Left out of the object when missing, instead of failing it
+  optional?: boolean
+  parse: (value: unknown, path?: string) => T
+}
+
+type Described = {description?: string}
+
+const describe = (value: unknown) => (Array.isArray(value) ? 'an array' : value === null ? 'null' : `a ${typeof value}`)
+
+export function string({description}: Described = {}): Schema<string> {
+  return {
+    responseSchema: {type: 'STRING', ...(description ? {description} : {})},
+    parse: (value, path = '') => {
+      if (typeof value !== 'string') {
+        throw new SchemaError(path, `should be a string, got ${describe(value)}`)
+      }
+      return value.trim()
+    },
+  }
+}
+
+/**
+ * A number, clamped into [min, max] and rounded when it should be a whole one.
+ * Numeric strings like "12.5" are read as numbers.
+ */
+export function number({description, min, max, integer}: Described & {min?: number; max?: number; integer?: boolean} = {}): Schema<number> {
+  return {
+    responseSchema: {
+      type: integer ? 'INTEGER' : 'NUMBER',
+      ...(description ? {description} : {}),
+      ...(min !== undefined ? {minimum: min} : {}),
+      ...(max !== undefined ? {maximum: max} : {}),
+    },
+    parse: (value, path = '') => {
+      const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+      if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+        throw new SchemaError(path, `should be a number, got ${describe(value)}`)
+      }
+      const clamped = Math.min(max ?? Infinity, Math.max(min ?? -Infinity, parsed))
+      return integer ? Math.round(clamped) : clamped
+    },
+  }
+}
+
+export function boolean({description}: Described = {}): Schema<boolean> {
+  return {
+    responseSchema: {type: 'BOOLEAN', ...(description ? {description} : {})},
+    parse: (value, path = '') => {
+      if (value === 'true' || value === 'false') {
+        return value === 'true'
+      }
+      if (typeof value !== 'boolean') {
+        throw new SchemaError(path, `should be true or false, got ${describe(value)}`)
+      }
+      return value
+    },
+  }
+}
+
+/**
+ * A CSS hex colour, normalized to upper case "#RRGGBB". A missing "#" or the
+ * three-digit shorthand is accepted; anything else isn't a colour.
+ */
+export function hexColor({description}: Described = {}): Schema<string> {
+  return {
+    responseSchema: {type: 'STRING', description: description ?? 'Hex colour code like #A1B2C3'},
+    parse: (value, path = '') => {
+      const hex = string().parse(value, path).replace(/^#/, '')
+      if (!/^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(hex)) {
+        throw new SchemaError(path, `should be a hex colour, got "${hex}"`)
+      }
+      const full = hex.length === 3 ? hex.split('').map(digit => digit + digit).join('') : hex
+      return `#${full.toUpperCase()}`
+    },
+  }
+}
+
+/**
+ * A list, cut down to maxItems. With dropInvalid, items that fail their schema are
+ * left out instead of failing the whole list, as long as minItems are left.
+ */
+export function array<T>(
+  item: Schema<T>,
+  {description, minItems, maxItems, dropInvalid}: Described & {minItems?: number; maxItems?: number; dropInvalid?: boolean} = {}
+): Schema<T[]> {
+  return {
+    responseSchema: {
+      type: 'ARRAY',
+      items: item.responseSchema,
+      ...(description ? {description} : {}),
+      ...(minItems !== undefined ? {minItems} : {}),
+      ...(maxItems !== undefined ? {maxItems} : {}),
+    },
+    parse: (value, path = '') => {
+      if (!Array.isArray(value)) {
+        throw new SchemaError(path, `should be an array, got ${describe(value)}`)
+      }
+      const items = value.flatMap((entry, index) => {
+        try {
+          return [item.parse(entry, `${path}[${index}]`)]
+        } catch (error) {
+          if (dropInvalid && error instanceof SchemaError) {
+            console.warn('[Schema] Dropping invalid item:', error.message)
+            return []
+          }
+          throw error
+        }
+      })
+      if (minItems !== undefined && items.length < minItems) {
+        throw new SchemaError(path, `should have at least ${minItems} item${minItems !== 1 ? 's' : ''}, got ${items.length}`)
+      }
+      return maxItems !== undefined ? items.slice(0, maxItems) : items
+    },
+  }
+}
+
+type Shape = Record<string, Schema<unknown>>
+
+type ShapeValue<S extends Shape> = {
+  [K in keyof S]: S[K] extends Schema<infer T> ? T : never
+}
+
+/**
+ * An object with the given fields, in the order given. Fields not in the shape are dropped.
+ */
+export function object<S extends Shape>(shape: S, {description}: Described = {}): Schema<ShapeValue<S>> {
+  const keys = Object.keys(shape)
+  return {
+    responseSchema: {
+      type: 'OBJECT',
+      ...(description ? {description} : {}),
+      properties: Object.fromEntries(keys.map(key => [key, shape[key].responseSchema])),
+      required: keys.filter(key => !shape[key].optional),
+      // Gemini otherwise orders the fields alphabetically, which reads worse as it writes them
+      propertyOrdering: keys,
+    },
+    parse: (value, path = '') => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new SchemaError(path, `should be an object, got ${describe(value)}`)
+      }
+      const record = value as Record<string, unknown>
+      const parsed: Record<string, unknown> = {}
+      keys.forEach(key => {
+        const fieldPath = path ? `${path}.${key}` : key
+        if (record[key] === undefined || record[key] === null) {
+          if (!shape[key].optional) {
+            throw new SchemaError(fieldPath, 'is missing')
+          }
+          return
+        }
+        parsed[key] = shape[key].parse(record[key], fieldPath)
+      })
+      return parsed as ShapeValue<S>
+    },
+  }
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {...schema, optional: true}
+}
+
+/**
+ * A schema with an extra step after parsing, for rules across fields, like percentages
+ * that should add up. The step can fix the value up or throw a SchemaError.
+ */
+export function refine<T>(schema: Schema<T>, step: (value: T, path: string) => T): Schema<T> {
+  return {
+    ...schema,
+    parse: (value, path = '') => step(schema.parse(value, path), path),
+  }
+}
@@ -0,0 +1,66 @@
+import {Screen} from '../components/StoryView'
+import {getStoredAnalysisResult, ScreenEligibilityData} from '../components/screens'
+
+/**
+ * Branches in a story.
+ * A screen with a `when` condition in stories.json is only shown once the
+ * analysis it names has finished and its result passes the check, e.g.
+ * `{"analysis": "smallBusiness", "field": "smallBusinessCount", "op": "gt", "value": 0}`.
+ * Until then, or if the analysis fails, the story carries on without it, unless a
+ * link opened the story on that screen (see StoryView).
+ */
+
+export const CONDITION_OPERATORS = ['gt', 'gte', 'lt', 'lte', 'eq', 'ne'] as const
+export type ConditionOperator = typeof CONDITION_OPERATORS[number]
+
+// Operators that only make sense against a number
+export const NUMERIC_OPERATORS: readonly ConditionOperator[] = ['gt', 'gte', 'lt', 'lte']
+
+export type ScreenCondition = {
+  // The analysis type, as registered by the screen that runs it (e.g. 'carbonFootprint')
+  analysis: string
+  // Dot-separated path into the analysis result
+  field: string
+  op: ConditionOperator
+  value: number | string | boolean
+}
+
+const readField = (data: unknown, field: string): unknown =>
+  field.split('.').reduce<unknown>(
+    (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+    data
+  )
+
+export function evaluateCondition(condition: ScreenCondition, data: unknown): boolean {
+  const actual = readField(data, condition.field)
+  const expected = condition.value
+
+  switch (condition.op) {
+    case 'eq':
+      return actual === expected
+    case 'ne':
+      return actual !== expected
+    default:
+      if (typeof actual !== 'number' || typeof expected !== 'number') {
+        return false
+      }
+      if (condition.op === 'gt') return actual > expected
+      if (condition.op === 'gte') return actual >= expected
+      if (condition.op === 'lt') return actual < expected
+      return actual <= expected
+  }
+}
+
+/**
+ * Whether a screen's branch is taken, reading the analysis result from the shared store.
+ * Screens without a condition always are; conditional ones aren't until the data has loaded
+ * and the analysis has succeeded.
+ */
+export function isBranchTaken(screen: Screen, data: ScreenEligibilityData | null): boolean {
+  const condition = screen.when
+  if (!condition) {
+    return true
+  }
+  const result = data ? getStoredAnalysisResult(condition.analysis, data) : undefined
+  return result !== undefined && evaluateCondition(condition, result)
+}
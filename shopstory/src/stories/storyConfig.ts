@@ -0,0 +1,287 @@
+import {Screen, Story, StoryCover} from '../components/StoryView'
+import {getRegisteredScreenTypes, getScreenAnalysis, getScreenOptionSpec, ScreenType} from '../components/screens'
+import {TRANSITION_NAMES, TransitionName} from '../components/StoryTransition'
+import {CONDITION_OPERATORS, NUMERIC_OPERATORS, ScreenCondition} from './storyBranches'
+
+/**
+ * Story definition loader.
+ * Stories live in stories.json (see story.schema.json for the format) and are
+ * validated here before StoryView ever sees them, so a typo in the config
+ * fails with a readable message instead of an "Unknown screen type" card.
+ */
+
+export const STORY_CONFIG_VERSION = 1
+
+export type ScreenDefinition = {
+  id?: string
+  type: string
+  enabled?: boolean
+  order?: number
+  durationMs?: number
+  transition?: TransitionName
+  when?: ScreenCondition
+  options?: Record<string, unknown>
+}
+
+export type StoryDefinition = {
+  id: string
+  title: string
+  cover?: StoryCover
+  transition?: TransitionName
+  enabled?: boolean
+  screens: ScreenDefinition[]
+}
+
+export type StoryConfig = {
+  version: number
+  stories: StoryDefinition[]
+}
+
+export class StoryConfigError extends Error {
+  issues: string[]
+
+  constructor(issues: string[]) {
+    super(`Invalid story config:\n${issues.map(issue => `  - ${issue}`).join('\n')}`)
+    this.name = 'StoryConfigError'
+    this.issues = issues
+  }
+}
+
+const isScreenType = (value: unknown): value is ScreenType =>
+  typeof value === 'string' && getRegisteredScreenTypes().includes(value as ScreenType)
+
+const isTransitionName = (value: unknown): value is TransitionName =>
+  typeof value === 'string' && (TRANSITION_NAMES as readonly string[]).includes(value)
+
+const checkTransition = (value: unknown, path: string, issues: string[]) => {
+  if (value !== undefined && !isTransitionName(value)) {
+    issues.push(`${path} "${String(value)}" is not a known transition (expected one of: ${TRANSITION_NAMES.join(', ')})`)
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+function parseCondition(raw: unknown, path: string, issues: string[]): ScreenCondition | undefined {
+  if (raw === undefined) {
+    return undefined
+  }
+  if (!isObject(raw)) {
+    issues.push(`${path} must be an object`)
+    return undefined
+  }
+
+  const issueCount = issues.length
+  if (typeof raw.analysis !== 'string' || !getScreenAnalysis(raw.analysis)) {
+    issues.push(`${path}.analysis "${String(raw.analysis)}" is not an analysis any registered screen runs`)
+  }
+  if (typeof raw.field !== 'string' || raw.field === '') {
+    issues.push(`${path}.field must be a non-empty string`)
+  }
+  const op = CONDITION_OPERATORS.find(operator => operator === raw.op)
+  if (!op) {
+    issues.push(`${path}.op "${String(raw.op)}" is not a known operator (expected one of: ${CONDITION_OPERATORS.join(', ')})`)
+  } else if (NUMERIC_OPERATORS.includes(op) && typeof raw.value !== 'number') {
+    issues.push(`${path}.value must be a number for "${op}"`)
+  }
+  if (!['number', 'string', 'boolean'].includes(typeof raw.value)) {
+    issues.push(`${path}.value must be a number, string or boolean`)
+  }
+  if (issues.length > issueCount || !op) {
+    return undefined
+  }
+
+  return {
+    analysis: String(raw.analysis),
+    field: String(raw.field),
+    op,
+    value: raw.value as ScreenCondition['value'],
+  }
+}
+
+function parseScreen(raw: unknown, path: string, issues: string[]): Screen | null {
+  if (!isObject(raw)) {
+    issues.push(`${path} must be an object`)
+    return null
+  }
+
+  if (!isScreenType(raw.type)) {
+    issues.push(
+      `${path}.type "${String(raw.type)}" is not a known screen type (expected one of: ${getRegisteredScreenTypes().join(', ')})`
+    )
+    return null
+  }
+
+  if (raw.id !== undefined && (typeof raw.id !== 'string' || raw.id === '')) {
+    issues.push(`${path}.id must be a non-empty string`)
+  }
+  if (raw.durationMs !== undefined && (typeof raw.durationMs !== 'number' || raw.durationMs <= 0)) {
+    issues.push(`${path}.durationMs must be a positive number`)
+  }
+  checkTransition(raw.transition, `${path}.transition`, issues)
+  const when = parseCondition(raw.when, `${path}.when`, issues)
+  if (raw.options !== undefined && !isObject(raw.options)) {
+    issues.push(`${path}.options must be an object`)
+    return null
+  }
+
+  // Check the options against what the screen registered; only those are copied onto the screen data
+  const rawOptions: Record<string, unknown> = raw.options ?? {}
+  const optionSpec = getScreenOptionSpec(raw.type)
+  Object.keys(rawOptions).forEach(key => {
+    if (!(key in optionSpec)) {
+      issues.push(`${path}.options.${key} is not an option of ${raw.type} screens`)
+    }
+  })
+  Object.entries(optionSpec).forEach(([key, expectedType]) => {
+    if (typeof rawOptions[key] !== expectedType) {
+      issues.push(`${path}.options.${key} must be a ${expectedType}`)
+    }
+  })
+  const options = Object.fromEntries(Object.keys(optionSpec).map(key => [key, rawOptions[key]]))
+
+  // The options are exactly the ones the screen type's spec (typed from its data) asks for
+  return {
+    ...options,
+    type: raw.type,
+    id: typeof raw.id === 'string' && raw.id ? raw.id : raw.type,
+    ...(typeof raw.durationMs === 'number' ? {durationMs: raw.durationMs} : {}),
+    ...(isTransitionName(raw.transition) ? {transition: raw.transition} : {}),
+    ...(when ? {when} : {}),
+  } as Screen
+}
+
+function parseCover(raw: unknown, path: string, issues: string[]): StoryCover | undefined {
+  if (raw === undefined) {
+    return undefined
+  }
+  if (!isObject(raw)) {
+    issues.push(`${path} must be an object`)
+    return undefined
+  }
+
+  const cover: StoryCover = {}
+  const keys = ['imageUrl', 'color'] as const
+  keys.forEach(key => {
+    const value = raw[key]
+    if (value === undefined) {
+      return
+    }
+    if (typeof value !== 'string' || value === '') {
+      issues.push(`${path}.${key} must be a non-empty string`)
+      return
+    }
+    cover[key] = value
+  })
+  return cover
+}
+
+function parseStory(raw: unknown, path: string, issues: string[]): Story | null {
+  if (!isObject(raw)) {
+    issues.push(`${path} must be an object`)
+    return null
+  }
+  if (typeof raw.id !== 'string' || raw.id === '') {
+    issues.push(`${path}.id must be a non-empty string`)
+  }
+  if (typeof raw.title !== 'string' || raw.title === '') {
+    issues.push(`${path}.title must be a non-empty string`)
+  }
+  const cover = parseCover(raw.cover, `${path}.cover`, issues)
+  checkTransition(raw.transition, `${path}.transition`, issues)
+  if (!Array.isArray(raw.screens) || raw.screens.length === 0) {
+    issues.push(`${path}.screens must be a non-empty array`)
+    return null
+  }
+
+  const entries: Array<{screen: Screen; sortKey: number}> = []
+  raw.screens.forEach((rawScreen: unknown, index: number) => {
+    const screenPath = `${path}.screens[${index}]`
+    const screen = parseScreen(rawScreen, screenPath, issues)
+    if (!screen || !isObject(rawScreen)) {
+      return
+    }
+    if (rawScreen.enabled !== undefined && typeof rawScreen.enabled !== 'boolean') {
+      issues.push(`${screenPath}.enabled must be a boolean`)
+    }
+    if (rawScreen.order !== undefined && typeof rawScreen.order !== 'number') {
+      issues.push(`${screenPath}.order must be a number`)
+    }
+    if (rawScreen.enabled === false) {
+      return
+    }
+    // Screens without an explicit order keep their position in the array
+    const sortKey = typeof rawScreen.order === 'number' ? rawScreen.order : index
+    entries.push({screen, sortKey})
+  })
+
+  const seenIds = new Set<string>()
+  entries.forEach(({screen}) => {
+    if (screen.id && seenIds.has(screen.id)) {
+      issues.push(`${path} has more than one screen with id "${screen.id}"`)
+    }
+    if (screen.id) seenIds.add(screen.id)
+  })
+
+  if (entries.length === 0) {
+    issues.push(`${path} has no enabled screens`)
+  }
+
+  return {
+    id: String(raw.id),
+    title: String(raw.title),
+    ...(cover ? {cover} : {}),
+    ...(isTransitionName(raw.transition) ? {transition: raw.transition} : {}),
+    screens: entries.sort((a, b) => a.sortKey - b.sortKey).map(entry => entry.screen),
+  }
+}
+
+/**
+ * Validate a raw story config (usually the imported stories.json) and turn it
+ * into the stories StoryView renders. Disabled stories and screens are dropped
+ * and screens are sorted by `order`.
+ *
+ * Throws a StoryConfigError listing every problem found, not just the first.
+ */
+export function parseStoryConfig(raw: unknown): Story[] {
+  const issues: string[] = []
+
+  if (!isObject(raw)) {
+    throw new StoryConfigError(['config must be an object'])
+  }
+  if (raw.version !== STORY_CONFIG_VERSION) {
+    throw new StoryConfigError([
+      `version ${String(raw.version)} is not supported (expected ${STORY_CONFIG_VERSION})`,
+    ])
+  }
+  if (!Array.isArray(raw.stories) || raw.stories.length === 0) {
+    throw new StoryConfigError(['stories must be a non-empty array'])
+  }
+
+  const stories: Story[] = []
+  const seenStoryIds = new Set<string>()
+  raw.stories.forEach((rawStory: unknown, index: number) => {
+    const path = `stories[${index}]`
+    if (isObject(rawStory) && rawStory.enabled === false) {
+      return
+    }
+    const story = parseStory(rawStory, path, issues)
+    if (!story) {
+      return
+    }
+    if (seenStoryIds.has(story.id)) {
+      issues.push(`${path}.id "${story.id}" is used by more than one story`)
+    }
+    seenStoryIds.add(story.id)
+    stories.push(story)
+  })
+
+  if (issues.length === 0 && stories.length === 0) {
+    issues.push('stories has no enabled stories')
+  }
+  if (issues.length > 0) {
+    throw new StoryConfigError(issues)
+  }
+
+  return stories
+}
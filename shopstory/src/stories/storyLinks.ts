@@ -0,0 +1,121 @@
+import {Story} from '../components/StoryView'
+
+/**
+ * URL-addressable story state.
+ * A link like `?story=your-impact&screen=carbon-footprint` opens StoryView on
+ * that screen. `screen` may also be a 0-based index into the story, and
+ * `story` may be left out, in which case the first story containing the
+ * screen id is used.
+ */
+
+export const STORY_PARAM = 'story'
+export const SCREEN_PARAM = 'screen'
+
+export type StoryLocation = {
+  storyIndex: number
+  screenIndex: number
+}
+
+export type StoryLinkTarget = {
+  storyId?: string
+  screenId?: string
+}
+
+// Query strings are handled by hand: URL and URLSearchParams aren't available in every
+// webview the mini runs in
+const decodeParam = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '))
+  } catch {
+    return value
+  }
+}
+
+const splitQuery = (query: string) =>
+  query.split('&').filter(Boolean).map(pair => ({key: decodeParam(pair.split('=')[0]), pair}))
+
+/**
+ * A query string parameter's value, '' when it has none, or null when it's not there at all.
+ */
+export function getQueryParam(search: string, name: string): string | null {
+  const entry = splitQuery(search.replace(/^\?/, '')).find(({key}) => key === name)
+  if (!entry) {
+    return null
+  }
+  const separator = entry.pair.indexOf('=')
+  return separator === -1 ? '' : decodeParam(entry.pair.slice(separator + 1))
+}
+
+function findScreenIndex(story: Story, screenParam: string) {
+  const byId = story.screens.findIndex(screen => screen.id === screenParam)
+  if (byId !== -1) {
+    return byId
+  }
+  if (/^\d+$/.test(screenParam)) {
+    const index = Number(screenParam)
+    return index < story.screens.length ? index : -1
+  }
+  return -1
+}
+
+/**
+ * Resolve the story and screen named in a query string against the loaded stories.
+ * Returns null when the link doesn't name a story or screen, or names one that doesn't exist.
+ */
+export function parseStoryLink(search: string, stories: Story[]): StoryLocation | null {
+  const storyParam = getQueryParam(search, STORY_PARAM)
+  const screenParam = getQueryParam(search, SCREEN_PARAM)
+
+  if (storyParam) {
+    const storyIndex = stories.findIndex(story => story.id === storyParam)
+    if (storyIndex === -1) {
+      console.warn(`[StoryLinks] Unknown story "${storyParam}" in link`)
+      return null
+    }
+    if (!screenParam) {
+      return {storyIndex, screenIndex: 0}
+    }
+    const screenIndex = findScreenIndex(stories[storyIndex], screenParam)
+    if (screenIndex === -1) {
+      console.warn(`[StoryLinks] Unknown screen "${screenParam}" in story "${storyParam}"`)
+      return {storyIndex, screenIndex: 0}
+    }
+    return {storyIndex, screenIndex}
+  }
+
+  if (screenParam) {
+    const storyIndex = stories.findIndex(story => story.screens.some(screen => screen.id === screenParam))
+    if (storyIndex === -1) {
+      console.warn(`[StoryLinks] Unknown screen "${screenParam}" in link`)
+      return null
+    }
+    return {storyIndex, screenIndex: findScreenIndex(stories[storyIndex], screenParam)}
+  }
+
+  return null
+}
+
+/**
+ * Build a URL pointing at a story and/or screen, keeping any other query params on the base URL.
+ * With an empty target the story params are removed, which is how StoryView clears the link
+ * when the user goes back to the picker.
+ */
+export function buildStoryLink(target: StoryLinkTarget, baseUrl: string = window.location.href) {
+  const hashStart = baseUrl.indexOf('#')
+  const hash = hashStart === -1 ? '' : baseUrl.slice(hashStart)
+  const withoutHash = hashStart === -1 ? baseUrl : baseUrl.slice(0, hashStart)
+  const queryStart = withoutHash.indexOf('?')
+  const path = queryStart === -1 ? withoutHash : withoutHash.slice(0, queryStart)
+  const query = queryStart === -1 ? '' : withoutHash.slice(queryStart + 1)
+
+  const pairs = splitQuery(query)
+    .filter(({key}) => key !== STORY_PARAM && key !== SCREEN_PARAM)
+    .map(({pair}) => pair)
+  if (target.storyId) {
+    pairs.push(`${STORY_PARAM}=${encodeURIComponent(target.storyId)}`)
+  }
+  if (target.screenId) {
+    pairs.push(`${SCREEN_PARAM}=${encodeURIComponent(target.screenId)}`)
+  }
+  return `${path}${pairs.length > 0 ? `?${pairs.join('&')}` : ''}${hash}`
+}
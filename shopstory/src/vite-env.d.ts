@@ -2,6 +2,10 @@
 
 interface ImportMetaEnv {
   readonly VITE_GEMINI_API_KEY?: string;
+  // Fixture persona to use instead of live Shop data, e.g. "eco-shopper" (see src/fixtures)
+  readonly VITE_DATA_FIXTURE?: string;
+  // "true" to ask Gemini for every screen's analysis in one request (see GeminiService.startStoryAnalysis)
+  readonly VITE_GEMINI_BATCHED?: string;
   // Add more environment variables here as needed
 }
 
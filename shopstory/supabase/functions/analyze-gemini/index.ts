@@ -6,29 +6,47 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Output limit when the app doesn't ask for one, and the most it may ask for
+const DEFAULT_MAX_OUTPUT_TOKENS = 2048
+const MAX_OUTPUT_TOKENS_LIMIT = 8192
+
+// Errors carry an errorKind the app uses to decide whether to retry (see GeminiErrorKind in gemini.ts)
+const errorResponse = (status: number, errorKind: string, error: string) =>
+  new Response(
+    JSON.stringify({ success: false, error, errorKind }),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
 
-  try {
-    const { prompt, modelName = 'gemini-2.5-flash' } = await req.json()
-
-    if (!prompt) {
-      return new Response(
-        JSON.stringify({ success: false, error: 'Missing prompt parameter' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+  // A body that doesn't parse or has the wrong shape won't get better on a retry
+  const body = await req.json().catch(() => null)
+  if (typeof body !== 'object' || body === null) {
+    return errorResponse(400, 'request', 'Request body must be a JSON object')
+  }
+  const { prompt, modelName = 'gemini-2.5-flash', responseSchema, maxOutputTokens } = body
+  if (typeof prompt !== 'string' || !prompt) {
+    return errorResponse(400, 'request', 'Missing prompt parameter')
+  }
+  if (typeof modelName !== 'string' || !/^[\w.-]+$/.test(modelName)) {
+    return errorResponse(400, 'request', 'Invalid modelName parameter')
+  }
+  if (responseSchema !== undefined && (typeof responseSchema !== 'object' || responseSchema === null)) {
+    return errorResponse(400, 'request', 'Invalid responseSchema parameter')
+  }
+  if (maxOutputTokens !== undefined && typeof maxOutputTokens !== 'number') {
+    return errorResponse(400, 'request', 'Invalid maxOutputTokens parameter')
+  }
 
+  try {
     // Get Gemini API key from environment
     const geminiApiKey = Deno.env.get('GEMINI_API_KEY')
     if (!geminiApiKey) {
-      return new Response(
-        JSON.stringify({ success: false, error: 'Gemini API key not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return errorResponse(500, 'config', 'Gemini API key not configured')
     }
 
     // Call Gemini API
@@ -44,14 +62,18 @@ Deno.serve(async (req) => {
         temperature: 1,
         topK: 10,
         topP: 0.5,
-        maxOutputTokens: 2048,
+        maxOutputTokens: Number.isInteger(maxOutputTokens) && maxOutputTokens > 0
+          ? Math.min(maxOutputTokens, MAX_OUTPUT_TOKENS_LIMIT)
+          : DEFAULT_MAX_OUTPUT_TOKENS,
         thinkingConfig: {
           thinkingBudget: 0
-        }
+        },
+        // JSON mode: with a schema, Gemini replies with bare JSON following it
+        ...(responseSchema ? { responseMimeType: 'application/json', responseSchema } : {})
       }
     }
 
-    console.log('Calling Gemini API:', { url, promptLength: prompt.length })
+    console.log('Calling Gemini API:', { url, promptLength: prompt.length, jsonMode: !!responseSchema })
 
     const response = await fetch(url, {
       method: 'POST',
@@ -60,18 +82,15 @@ Deno.serve(async (req) => {
         'x-goog-api-key': geminiApiKey,
       },
       body: JSON.stringify(requestBody),
+      // Aborts when the app disconnects, so a cancelled analysis stops costing tokens
+      signal: req.signal,
     })
 
     if (!response.ok) {
       const errorText = await response.text()
       console.error('Gemini API error:', errorText)
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: `Gemini API error: ${response.status} ${errorText}`
-        }),
-        { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      const errorKind = response.status === 429 ? 'rateLimit' : response.status >= 500 ? 'server' : 'request'
+      return errorResponse(response.status, errorKind, `Gemini API error: ${response.status} ${errorText}`)
     }
 
     const data = await response.json()
@@ -81,48 +100,36 @@ Deno.serve(async (req) => {
 
       // Check for issues
       if (candidate.finishReason === 'SAFETY') {
-        return new Response(
-          JSON.stringify({ success: false, error: 'Response blocked by safety filters' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        return errorResponse(400, 'safety', 'Response blocked by safety filters')
       }
 
       if (candidate.finishReason === 'MAX_TOKENS') {
-        return new Response(
-          JSON.stringify({ success: false, error: 'Response hit token limit' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        return errorResponse(400, 'maxTokens', 'Response hit token limit')
       }
 
       // Extract text from response
       const generatedText = candidate.content?.parts?.[0]?.text
 
       if (!generatedText) {
-        return new Response(
-          JSON.stringify({
-            success: false,
-            error: `No text generated. Reason: ${candidate.finishReason || 'unknown'}`
-          }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+        return errorResponse(502, 'server', `No text generated. Reason: ${candidate.finishReason || 'unknown'}`)
       }
 
       return new Response(
         JSON.stringify({ success: true, data: generatedText }),
         { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
+    } else if (data.promptFeedback?.blockReason) {
+      // The prompt itself was blocked, so there's nothing to answer
+      return errorResponse(400, 'safety', `Prompt blocked: ${data.promptFeedback.blockReason}`)
     } else {
-      return new Response(
-        JSON.stringify({ success: false, error: 'No response candidates returned' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+      return errorResponse(502, 'server', 'No response candidates returned')
     }
 
   } catch (error) {
+    if (req.signal.aborted) {
+      return errorResponse(499, 'cancelled', 'Client disconnected')
+    }
     console.error('Function error:', error)
-    return new Response(
-      JSON.stringify({ success: false, error: error.message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    return errorResponse(500, 'server', error.message)
   }
 })